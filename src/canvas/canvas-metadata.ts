@@ -0,0 +1,43 @@
+import { App, TFile } from 'obsidian';
+import { CanvasData, CanvasPluginMetadata } from '../types';
+
+// Top-level key in the .canvas JSON that holds this plugin's per-canvas settings
+const METADATA_KEY = 'detailedCanvas';
+
+/**
+ * Read this plugin's per-canvas settings from a canvas file
+ */
+export async function readCanvasMetadata(app: App, file: TFile): Promise<CanvasPluginMetadata> {
+	try {
+		const data = JSON.parse(await app.vault.cachedRead(file)) as CanvasData;
+		return data[METADATA_KEY] ?? {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Merge changes into this plugin's per-canvas settings, leaving nodes and edges untouched
+ */
+export async function updateCanvasMetadata(
+	app: App,
+	file: TFile,
+	changes: Partial<CanvasPluginMetadata>
+): Promise<void> {
+	await app.vault.process(file, (content) => {
+		const data = JSON.parse(content) as CanvasData;
+		const metadata: CanvasPluginMetadata = { ...data[METADATA_KEY], ...changes };
+
+		// Drop cleared keys so untouched canvases stay byte-identical
+		for (const key of Object.keys(metadata) as Array<keyof CanvasPluginMetadata>) {
+			if (metadata[key] === undefined) delete metadata[key];
+		}
+
+		if (Object.keys(metadata).length > 0) {
+			data[METADATA_KEY] = metadata;
+		} else {
+			delete data[METADATA_KEY];
+		}
+		return JSON.stringify(data, null, '\t');
+	});
+}
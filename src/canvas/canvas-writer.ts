@@ -0,0 +1,126 @@
+import { App, TFile, View } from 'obsidian';
+import { CanvasData } from '../types';
+
+// Internal API of a node in an open canvas view
+export type LiveCanvasNode = {
+	contentEl?: HTMLElement;
+	nodeEl?: HTMLElement;
+	setText?: (text: string) => void;
+};
+
+// Internal API of an open canvas view, used to read and replace the whole canvas
+export type LiveCanvas = {
+	nodes: Map<string, LiveCanvasNode>;
+	getData: () => CanvasData;
+	setData: (data: CanvasData) => void;
+	requestSave?: () => void;
+	deselectAll?: () => void;
+	addToSelection?: (node: LiveCanvasNode) => void;
+	zoomToSelection?: () => void;
+};
+
+/**
+ * Reads and changes a canvas by file, whether or not it is open. Open canvases are changed through
+ * their view, so the view and the file never disagree; closed ones are rewritten in one vault.process call.
+ */
+export class CanvasWriter {
+	constructor(private app: App) {}
+
+	/**
+	 * The live canvas of a view showing this file (in any tab, not just the active one)
+	 * @returns The canvas, or null if the file is not open
+	 */
+	getLiveCanvas(file: TFile): LiveCanvas | null {
+		return this.openCanvases().find(open => open.file.path === file.path)?.canvas ?? null;
+	}
+
+	/**
+	 * Every open canvas view with its file
+	 */
+	openCanvases(): Array<{ file: TFile; canvas: LiveCanvas }> {
+		const open: Array<{ file: TFile; canvas: LiveCanvas }> = [];
+		for (const leaf of this.app.workspace.getLeavesOfType('canvas')) {
+			const view = leaf.view as View & { file?: TFile | null; canvas?: LiveCanvas };
+			if (view.file instanceof TFile && view.canvas?.getData) {
+				open.push({ file: view.file, canvas: view.canvas });
+			}
+		}
+		return open;
+	}
+
+	/**
+	 * Current canvas data: the open view's state, or the file's content
+	 */
+	async read(file: TFile): Promise<CanvasData> {
+		const live = this.getLiveCanvas(file);
+		if (live) return live.getData();
+		return JSON.parse(await this.app.vault.read(file)) as CanvasData;
+	}
+
+	/**
+	 * Apply a change to the canvas. The change gets the current data and returns the new data,
+	 * or the same object to leave the canvas untouched.
+	 * @returns The canvas data after the change
+	 */
+	async update(file: TFile, change: (data: CanvasData) => CanvasData): Promise<CanvasData> {
+		const live = this.getLiveCanvas(file);
+		if (live) {
+			const data = live.getData();
+			const next = change(data);
+			if (next !== data) {
+				live.setData(next);
+				live.requestSave?.();
+			}
+			return next;
+		}
+
+		let result: CanvasData | null = null;
+		await this.app.vault.process(file, (content) => {
+			const data = JSON.parse(content) as CanvasData;
+			const next = change(data);
+			result = next;
+			return next === data ? content : JSON.stringify(next, null, '\t');
+		});
+		return result ?? this.read(file);
+	}
+
+	/**
+	 * Replace a text node's text
+	 * @returns false if the node does not exist (yet) or is not a text node
+	 */
+	async setNodeText(file: TFile, nodeId: string, text: string): Promise<boolean> {
+		if (this.getLiveCanvas(file)) {
+			return this.setLiveNodeText(file, nodeId, text);
+		}
+
+		let found = false;
+		await this.update(file, (data) => {
+			if (!data.nodes.some(node => node.id === nodeId && node.type === 'text')) return data;
+			found = true;
+			return {
+				...data,
+				nodes: data.nodes.map(node => node.id === nodeId && node.type === 'text' ? { ...node, text } : node),
+			};
+		});
+		return found;
+	}
+
+	/**
+	 * Replace a text node's text only if the canvas is open, e.g. for streaming previews
+	 * that would otherwise rewrite a closed file several times a second
+	 * @returns false if the canvas is not open or the node is not rendered yet
+	 */
+	setLiveNodeText(file: TFile, nodeId: string, text: string): boolean {
+		try {
+			const live = this.getLiveCanvas(file);
+			const node = live?.nodes.get(nodeId);
+			if (!live || !node?.setText) return false;
+
+			node.setText(text);
+			live.requestSave?.();
+			return true;
+		} catch {
+			return false;
+		}
+	}
+}
@@ -0,0 +1,160 @@
+import { CanvasData, CanvasFileData, CanvasGroupData, CanvasNode, CanvasNodeData, CanvasTextData } from '../types';
+import { COMPANION_EDGE_LABEL, COMPANION_GAP, GROUP_PADDING } from '../constants';
+import { contains } from './layout';
+import { generateNodeId } from './utils';
+
+const MIN_COMPANION_WIDTH = 400;
+
+/**
+ * Find the companion card of a node: a text node reached by an edge labelled COMPANION_EDGE_LABEL
+ * @returns The companion's node id, or null if the node has none
+ */
+export function findCompanionId(data: CanvasData, sourceId: string): string | null {
+	const edge = data.edges.find(e =>
+		e.fromNode === sourceId &&
+		e.label === COMPANION_EDGE_LABEL &&
+		data.nodes.some(node => node.id === e.toNode && node.type === 'text')
+	);
+	return edge?.toNode ?? null;
+}
+
+/**
+ * Add a text card to the right of a node, joined to it by a labelled edge
+ * @returns The new canvas data and the ids of the added card and edge
+ */
+export function addCompanionCard(
+	data: CanvasData,
+	source: CanvasNodeData,
+	text: string
+): { data: CanvasData; nodeId: string; edgeId: string } {
+	const card: CanvasTextData = {
+		id: generateNodeId(),
+		type: 'text',
+		text,
+		x: source.x + source.width + COMPANION_GAP,
+		y: source.y,
+		width: Math.max(source.width, MIN_COMPANION_WIDTH),
+		height: source.height,
+	};
+
+	const edgeId = generateNodeId();
+	return {
+		nodeId: card.id,
+		edgeId,
+		data: {
+			...data,
+			nodes: [...data.nodes, card],
+			edges: [...data.edges, {
+				id: edgeId,
+				fromNode: source.id,
+				fromSide: 'right',
+				toNode: card.id,
+				toSide: 'left',
+				label: COMPANION_EDGE_LABEL,
+			}],
+		},
+	};
+}
+
+/**
+ * Add a text or file node to the right of the given nodes, aligned with their top edge
+ * @returns The new canvas data and the added node's id
+ */
+export function addNodeBeside(
+	data: CanvasData,
+	nodeIds: string[],
+	content: Pick<CanvasTextData, 'type' | 'text'> | Pick<CanvasFileData, 'type' | 'file'>,
+	size: { width: number; height: number }
+): { data: CanvasData; nodeId: string } {
+	const anchors = data.nodes.filter(node => nodeIds.includes(node.id));
+	const node: CanvasNode = {
+		...content,
+		id: generateNodeId(),
+		x: anchors.length > 0 ? Math.max(...anchors.map(n => n.x + n.width)) + COMPANION_GAP : 0,
+		y: anchors.length > 0 ? Math.min(...anchors.map(n => n.y)) : 0,
+		...size,
+	};
+	return { data: { ...data, nodes: [...data.nodes, node] }, nodeId: node.id };
+}
+
+/**
+ * Turn a node into a text node with the same id, position, size and color, so edges stay attached
+ */
+export function replaceWithTextNode(data: CanvasData, nodeId: string, text: string): CanvasData {
+	return {
+		...data,
+		nodes: data.nodes.map(node => {
+			if (node.id !== nodeId) return node;
+			const { id, x, y, width, height, color } = node;
+			const replacement: CanvasTextData = { id, type: 'text', text, x, y, width, height };
+			if (color) replacement.color = color;
+			return replacement;
+		}),
+	};
+}
+
+/**
+ * Find a group node that already encloses all the given nodes
+ */
+export function findEnclosingGroup(data: CanvasData, nodeIds: string[]): CanvasGroupData | null {
+	const members = data.nodes.filter(node => nodeIds.includes(node.id));
+	const groups = data.nodes.filter((node): node is CanvasGroupData => node.type === 'group');
+	return groups.find(group => members.every(member => contains(group, member))) ?? null;
+}
+
+/**
+ * Add a group node around the given nodes
+ * @returns The new canvas data and the id of the group, or null if none of the nodes exist
+ */
+export function wrapInGroup(data: CanvasData, nodeIds: string[], label?: string): { data: CanvasData; nodeId: string | null } {
+	const members = data.nodes.filter(node => nodeIds.includes(node.id));
+	if (members.length === 0) return { data, nodeId: null };
+
+	const left = Math.min(...members.map(node => node.x));
+	const top = Math.min(...members.map(node => node.y));
+	const right = Math.max(...members.map(node => node.x + node.width));
+	const bottom = Math.max(...members.map(node => node.y + node.height));
+
+	const group: CanvasGroupData = {
+		id: generateNodeId(),
+		type: 'group',
+		x: left - GROUP_PADDING,
+		y: top - GROUP_PADDING,
+		width: right - left + GROUP_PADDING * 2,
+		height: bottom - top + GROUP_PADDING * 2,
+	};
+	if (label) group.label = label;
+
+	// Groups come first so they are drawn behind their cards
+	return { data: { ...data, nodes: [group, ...data.nodes] }, nodeId: group.id };
+}
+
+/**
+ * Put a node back as it was and drop the nodes and edges added alongside it
+ * @param original - The node's data before enrichment
+ * @param addedNodeIds - Companion cards and groups to remove
+ * @param addedEdgeIds - Edges to remove (edges touching removed nodes go too)
+ */
+export function restoreNode(
+	data: CanvasData,
+	original: CanvasNode,
+	addedNodeIds: string[],
+	addedEdgeIds: string[]
+): CanvasData {
+	const removed = new Set(addedNodeIds);
+	const nodes = data.nodes.filter(node => !removed.has(node.id));
+	const index = nodes.findIndex(node => node.id === original.id);
+	if (index === -1) {
+		nodes.push(original);
+	} else {
+		nodes[index] = original;
+	}
+
+	return {
+		...data,
+		nodes,
+		edges: data.edges.filter(edge =>
+			!addedEdgeIds.includes(edge.id) && !removed.has(edge.fromNode) && !removed.has(edge.toNode)
+		),
+	};
+}
@@ -0,0 +1,113 @@
+import { TFile } from 'obsidian';
+import { AIProviderType, StructuredEnrichment, UrlMetadata } from '../types';
+
+export type CardTemplateValues = Record<string, string>;
+
+// Optional values that only exist for some enrichments
+export interface CardExtras {
+	notePath?: string;
+	provider?: AIProviderType;
+	structured?: StructuredEnrichment;
+}
+
+// {{#field}}...{{/field}} renders when field is non-empty, {{^field}}...{{/field}} when it is empty
+const SECTION_RE = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const PLACEHOLDER_RE = /\{\{(\w+)\}\}/g;
+
+/**
+ * Collect every value a card template can reference
+ */
+export function buildCardValues(
+	metadata: UrlMetadata,
+	summary: string,
+	extras: CardExtras = {}
+): CardTemplateValues {
+	const { notePath, provider, structured } = extras;
+	const domain = new URL(metadata.url).hostname;
+	const notePathNoExt = notePath ? notePath.replace(/\.md$/, '') : '';
+
+	const details = metadata.details ?? {};
+
+	return {
+		// Site details first so they can never shadow the standard placeholders
+		...details,
+		url: metadata.url,
+		title: metadata.title || domain,
+		description: metadata.description ?? '',
+		ogImage: metadata.ogImage ?? '',
+		siteName: metadata.siteName || domain,
+		favicon: metadata.favicon ?? '',
+		textContent: metadata.textContent,
+		summary,
+		domain,
+		date: new Date().toISOString().slice(0, 10),
+		notePath: notePath ?? '',
+		provider: provider ?? '',
+		noteLink: notePathNoExt ? `[[${notePathNoExt}|Open note]]` : '',
+		tags: structured ? structured.tags.map(tag => `#${tag}`).join(' ') : '',
+		keyPoints: structured ? structured.keyPoints.map(point => `- ${point}`).join('\n') : '',
+		contentType: structured?.contentType ?? '',
+		readingTime: structured?.readingTimeMinutes ? `${structured.readingTimeMinutes} min` : '',
+		details: formatDetails(details),
+	};
+}
+
+/**
+ * Collect the values for a vault file's companion card
+ */
+export function buildFileCardValues(
+	file: TFile,
+	details: Record<string, string>,
+	summary: string,
+	extras: CardExtras = {}
+): CardTemplateValues {
+	const { provider, structured } = extras;
+	const linkPath = file.extension === 'md' ? file.path.replace(/\.md$/, '') : file.path;
+
+	return {
+		...details,
+		title: file.basename,
+		path: file.path,
+		fileLink: `[[${linkPath}|${file.basename}]]`,
+		summary,
+		date: new Date().toISOString().slice(0, 10),
+		provider: provider ?? '',
+		tags: structured ? structured.tags.map(tag => `#${tag}`).join(' ') : '',
+		keyPoints: structured ? structured.keyPoints.map(point => `- ${point}`).join('\n') : '',
+		contentType: structured?.contentType ?? '',
+		readingTime: structured?.readingTimeMinutes ? `${structured.readingTimeMinutes} min` : '',
+		details: formatDetails(details),
+	};
+}
+
+/**
+ * One-line summary of site details, e.g. "Stars: 1,234 · Language: TypeScript"
+ */
+function formatDetails(details: Record<string, string>): string {
+	return Object.entries(details)
+		.filter(([, value]) => value.trim().length > 0)
+		.map(([key, value]) => `${key.charAt(0).toUpperCase()}${key.slice(1)}: ${value}`)
+		.join(' · ');
+}
+
+/**
+ * Render a card template, resolving conditional sections before placeholders
+ */
+export function renderCardTemplate(template: string, values: CardTemplateValues): string {
+	let output = template;
+
+	// Each pass resolves the outermost sections, exposing the ones inside them to the next pass.
+	// A section cannot contain another section for the same field: the first {{/field}} closes the outer one.
+	let previous: string;
+	do {
+		previous = output;
+		output = output.replace(SECTION_RE, (_match, kind: string, key: string, inner: string) => {
+			const hasValue = (values[key] ?? '').trim().length > 0;
+			return (kind === '#') === hasValue ? inner : '';
+		});
+	} while (output !== previous);
+
+	return output
+		.replace(PLACEHOLDER_RE, (_match, key: string) => values[key] ?? '')
+		.trim();
+}
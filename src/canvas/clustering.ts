@@ -0,0 +1,179 @@
+import { CanvasData, CanvasEdgeData, CanvasGroupData, CanvasNode, CanvasNodeData, SuggestedCluster, SuggestedEdge } from '../types';
+import { CLUSTER_GAP, COMPANION_GAP, GROUP_PADDING, LAYOUT_GAP } from '../constants';
+import { findCompanionId } from './card-placement';
+import { groupMembers, pushOverlappingNodes, withGroupMembers } from './layout';
+import { nodeSourceText } from './overview';
+import { generateNodeId } from './utils';
+
+type Side = NonNullable<CanvasEdgeData['fromSide']>;
+
+/**
+ * A card as the user sees it: a node plus its companion card, which move together
+ */
+export interface CardUnit {
+	nodeId: string;
+	memberIds: string[]; // the node and its companion card, if any
+	title: string;
+	text: string;
+}
+
+/**
+ * Collect the cards to relate. A node with a companion card counts once, described by the companion's text.
+ * @param nodeIds - Selected nodes (groups stand for the cards inside them), or null for the whole canvas
+ */
+export function collectCardUnits(data: CanvasData, nodeIds: string[] | null): CardUnit[] {
+	const companions = new Map<string, string>();
+	for (const node of data.nodes) {
+		const companionId = findCompanionId(data, node.id);
+		if (companionId) companions.set(node.id, companionId);
+	}
+	const companionIds = new Set(companions.values());
+	const included = nodeIds ? withGroupMembers(data, nodeIds) : null;
+	const byId = new Map(data.nodes.map(node => [node.id, node]));
+
+	const units: CardUnit[] = [];
+	for (const node of data.nodes) {
+		if (node.type === 'group' || companionIds.has(node.id)) continue;
+
+		const companionId = companions.get(node.id);
+		const memberIds = companionId ? [node.id, companionId] : [node.id];
+		if (included && !memberIds.some(id => included.has(id))) continue;
+
+		const companion = companionId ? byId.get(companionId) : undefined;
+		const text = (companion && nodeSourceText(companion)) ?? nodeSourceText(node);
+		if (!text) continue;
+
+		units.push({ nodeId: node.id, memberIds, title: cardTitle(text), text });
+	}
+	return units;
+}
+
+/**
+ * Short title for a card: its first line of text, without Markdown images, headings or link syntax
+ */
+export function cardTitle(text: string): string {
+	const line = text.split('\n')
+		.map(l => l.trim())
+		.find(l => l.length > 0 && !l.startsWith('![')) ?? '';
+	const plain = line
+		.replace(/^#+\s*/, '')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[*_`]/g, '')
+		.trim();
+	return plain.length > 60 ? `${plain.substring(0, 59)}…` : plain || 'Untitled card';
+}
+
+/**
+ * Add labelled edges between cards, skipping pairs that are already connected in either direction
+ * @returns The new canvas data and the number of edges added
+ */
+export function addSuggestedEdges(data: CanvasData, edges: SuggestedEdge[]): { data: CanvasData; added: number } {
+	const byId = new Map(data.nodes.map(node => [node.id, node]));
+	const connected = new Set(data.edges.map(edge => pairKey(edge.fromNode, edge.toNode)));
+	const added: CanvasEdgeData[] = [];
+
+	for (const edge of edges) {
+		const from = byId.get(edge.fromId);
+		const to = byId.get(edge.toId);
+		const key = pairKey(edge.fromId, edge.toId);
+		if (!from || !to || from.id === to.id || connected.has(key)) continue;
+
+		connected.add(key);
+		const [fromSide, toSide] = facingSides(from, to);
+		added.push({ id: generateNodeId(), fromNode: from.id, fromSide, toNode: to.id, toSide, label: edge.label });
+	}
+
+	return { data: { ...data, edges: [...data.edges, ...added] }, added: added.length };
+}
+
+/**
+ * Move the cards of each cluster into a grid inside a new labelled group. Clusters are laid out left to right
+ * from the top-left of the clustered cards, and other cards they now overlap are pushed down.
+ * @returns The new canvas data and the number of groups added
+ */
+export function arrangeClusters(
+	data: CanvasData,
+	clusters: SuggestedCluster[],
+	units: CardUnit[]
+): { data: CanvasData; added: number } {
+	const unitById = new Map(units.map(unit => [unit.nodeId, unit]));
+	const nodes = new Map(data.nodes.map(node => [node.id, { ...node }]));
+	const clustered = clusters
+		.map(cluster => ({
+			name: cluster.name,
+			units: cluster.nodeIds.map(id => unitById.get(id)).filter((unit): unit is CardUnit => !!unit),
+		}))
+		.filter(cluster => cluster.units.length > 0);
+	if (clustered.length === 0) return { data, added: 0 };
+
+	const origin = bounds(clustered.flatMap(cluster => cluster.units.flatMap(unit => unit.memberIds)), nodes);
+	const groups: CanvasGroupData[] = [];
+	let x = origin.x;
+
+	for (const cluster of clustered) {
+		const boxes = cluster.units.map(unit => bounds(unit.memberIds, nodes));
+		const columns = Math.ceil(Math.sqrt(boxes.length));
+		const columnWidth = Math.max(...boxes.map(box => box.width));
+		const rowHeights: number[] = [];
+		boxes.forEach((box, index) => {
+			const row = Math.floor(index / columns);
+			rowHeights[row] = Math.max(rowHeights[row] ?? 0, box.height);
+		});
+
+		cluster.units.forEach((unit, index) => {
+			const row = Math.floor(index / columns);
+			const column = index % columns;
+			const targetX = x + GROUP_PADDING + column * (columnWidth + COMPANION_GAP);
+			const targetY = origin.y + GROUP_PADDING + rowHeights.slice(0, row).reduce((sum, h) => sum + h + COMPANION_GAP, 0);
+			const dx = targetX - boxes[index].x;
+			const dy = targetY - boxes[index].y;
+			for (const memberId of unit.memberIds) {
+				const member = nodes.get(memberId);
+				if (member) {
+					member.x += dx;
+					member.y += dy;
+				}
+			}
+		});
+
+		const width = columns * columnWidth + (columns - 1) * COMPANION_GAP + GROUP_PADDING * 2;
+		const height = rowHeights.reduce((sum, h) => sum + h, 0) + (rowHeights.length - 1) * COMPANION_GAP + GROUP_PADDING * 2;
+		groups.push({ id: generateNodeId(), type: 'group', label: cluster.name, x, y: origin.y, width, height });
+		x += width + CLUSTER_GAP;
+	}
+
+	// Groups come first so they are drawn behind their cards
+	let next: CanvasData = { ...data, nodes: [...groups, ...data.nodes.map(node => nodes.get(node.id) ?? node)] };
+	const members = groupMembers(next);
+	for (const group of groups) {
+		next = pushOverlappingNodes(next, group.id, LAYOUT_GAP, members);
+	}
+	return { data: next, added: groups.length };
+}
+
+function bounds(nodeIds: string[], nodes: Map<string, CanvasNode>): CanvasNodeData {
+	const boxes = nodeIds.map(id => nodes.get(id)).filter((node): node is CanvasNode => !!node);
+	const left = Math.min(...boxes.map(node => node.x));
+	const top = Math.min(...boxes.map(node => node.y));
+	return {
+		id: '',
+		x: left,
+		y: top,
+		width: Math.max(...boxes.map(node => node.x + node.width)) - left,
+		height: Math.max(...boxes.map(node => node.y + node.height)) - top,
+	};
+}
+
+// Connect the sides that face each other, so edges don't cross their own cards
+function facingSides(from: CanvasNodeData, to: CanvasNodeData): [Side, Side] {
+	const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+	const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+	if (Math.abs(dx) >= Math.abs(dy)) {
+		return dx >= 0 ? ['right', 'left'] : ['left', 'right'];
+	}
+	return dy >= 0 ? ['bottom', 'top'] : ['top', 'bottom'];
+}
+
+function pairKey(a: string, b: string): string {
+	return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
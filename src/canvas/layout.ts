@@ -0,0 +1,175 @@
+import { CanvasData, CanvasNode, CanvasNodeData } from '../types';
+import { GROUP_PADDING } from '../constants';
+
+export const MIN_CARD_HEIGHT = 60;
+export const MAX_CARD_HEIGHT = 1200;
+const IMAGE_LOAD_TIMEOUT = 3000; // stop waiting for slow images after 3 seconds
+const MAX_PUSHES = 200; // safety limit for cascading moves
+
+/**
+ * Set a node's size, keeping its top-left corner in place
+ */
+export function resizeNode(data: CanvasData, nodeId: string, width: number, height: number): CanvasData {
+	return {
+		...data,
+		nodes: data.nodes.map(node => node.id === nodeId ? { ...node, width, height } : node),
+	};
+}
+
+/**
+ * Ids of the nodes inside each group, keyed by group id
+ */
+export function groupMembers(data: CanvasData): Map<string, string[]> {
+	const members = new Map<string, string[]>();
+	for (const group of data.nodes) {
+		if (group.type !== 'group') continue;
+		members.set(group.id, data.nodes.filter(node => node.id !== group.id && contains(group, node)).map(node => node.id));
+	}
+	return members;
+}
+
+/**
+ * The given node ids plus the ids of every node inside the groups among them
+ */
+export function withGroupMembers(data: CanvasData, nodeIds: string[]): Set<string> {
+	const members = groupMembers(data);
+	return new Set(nodeIds.flatMap(id => [id, ...(members.get(id) ?? [])]));
+}
+
+/**
+ * Grow groups so they still enclose their members (e.g. after a member was resized)
+ * @param members - Group members as collected before the change
+ */
+export function fitGroups(data: CanvasData, members: Map<string, string[]>): CanvasData {
+	const byId = new Map(data.nodes.map(node => [node.id, node]));
+
+	return {
+		...data,
+		nodes: data.nodes.map(node => {
+			const memberIds = members.get(node.id);
+			if (node.type !== 'group' || !memberIds) return node;
+
+			const inside = memberIds.map(id => byId.get(id)).filter((n): n is CanvasNode => !!n);
+			if (inside.length === 0) return node;
+
+			const left = Math.min(node.x, ...inside.map(n => n.x - GROUP_PADDING));
+			const top = Math.min(node.y, ...inside.map(n => n.y - GROUP_PADDING));
+			const right = Math.max(node.x + node.width, ...inside.map(n => n.x + n.width + GROUP_PADDING));
+			const bottom = Math.max(node.y + node.height, ...inside.map(n => n.y + n.height + GROUP_PADDING));
+			return { ...node, x: left, y: top, width: right - left, height: bottom - top };
+		}),
+	};
+}
+
+/**
+ * Move nodes that overlap a node further down, cascading to whatever they then overlap.
+ * Groups move together with their members; members of a group stay with it.
+ * @param members - Group members, used to move groups as a unit
+ */
+export function pushOverlappingNodes(
+	data: CanvasData,
+	nodeId: string,
+	gap: number,
+	members: Map<string, string[]>
+): CanvasData {
+	const nodes = new Map(data.nodes.map(node => [node.id, { ...node }]));
+	const groupOf = new Map<string, string[]>();
+	for (const [groupId, ids] of members) {
+		for (const id of ids) groupOf.set(id, [...(groupOf.get(id) ?? []), groupId]);
+	}
+
+	const moveBy = (id: string, dy: number) => {
+		const node = nodes.get(id);
+		if (node) node.y += dy;
+		for (const memberId of members.get(id) ?? []) {
+			const member = nodes.get(memberId);
+			if (member) member.y += dy;
+		}
+	};
+
+	const queue = [nodeId];
+	let pushes = 0;
+	while (queue.length > 0 && pushes < MAX_PUSHES) {
+		const current = nodes.get(queue.shift() ?? '');
+		if (!current) continue;
+		const currentGroups = groupOf.get(current.id) ?? [];
+		const currentMembers = members.get(current.id) ?? [];
+
+		for (const other of nodes.values()) {
+			if (other.id === current.id || currentMembers.includes(other.id) || currentGroups.includes(other.id)) continue;
+			// Members of other groups move with their group, not on their own
+			const otherGroups = groupOf.get(other.id) ?? [];
+			if (otherGroups.some(groupId => !currentGroups.includes(groupId))) continue;
+			if (!overlaps(current, other, gap)) continue;
+
+			moveBy(other.id, current.y + current.height + gap - other.y);
+			queue.push(other.id);
+			pushes++;
+		}
+	}
+
+	return { ...data, nodes: data.nodes.map(node => nodes.get(node.id) ?? node) };
+}
+
+/**
+ * Height of a rendered card's content, once its images have loaded
+ * @returns Height in canvas units, or null if the card has not been rendered (e.g. it is off screen)
+ */
+export async function measureRenderedHeight(contentEl: HTMLElement | undefined): Promise<number | null> {
+	if (!contentEl) return null;
+
+	// Give the Markdown renderer a frame, then wait for images, which change the height once loaded
+	await new Promise(resolve => window.requestAnimationFrame(resolve));
+	const pending = Array.from(contentEl.querySelectorAll('img'))
+		.filter(img => !img.complete)
+		.map(img => new Promise(resolve => {
+			img.addEventListener('load', resolve, { once: true });
+			img.addEventListener('error', resolve, { once: true });
+		}));
+	if (pending.length > 0) {
+		await Promise.race([
+			Promise.all(pending),
+			new Promise(resolve => window.setTimeout(resolve, IMAGE_LOAD_TIMEOUT)),
+		]);
+	}
+
+	// scrollHeight is layout size, so it is not affected by the canvas zoom transform
+	const height = contentEl.scrollHeight;
+	return height > 0 ? height : null;
+}
+
+/**
+ * Rough card height from its Markdown, for cards that are not rendered
+ */
+export function estimateCardHeight(text: string, width: number): number {
+	const charsPerLine = Math.max(20, Math.floor((width - 40) / 8));
+	let height = 24; // content padding
+
+	for (const line of text.split('\n')) {
+		if (/^!\[[^\]]*\]\([^)]+\)/.test(line.trim())) {
+			height += width * 0.52; // typical og:image aspect ratio
+		} else if (line.startsWith('#')) {
+			height += 36 * Math.ceil(Math.max(1, line.length) / charsPerLine);
+		} else {
+			height += 24 * Math.ceil(Math.max(1, line.length) / charsPerLine);
+		}
+	}
+	return Math.round(height);
+}
+
+/**
+ * Whether inner lies entirely within outer
+ */
+export function contains(outer: CanvasNodeData, inner: CanvasNodeData): boolean {
+	return inner.x >= outer.x &&
+		inner.y >= outer.y &&
+		inner.x + inner.width <= outer.x + outer.width &&
+		inner.y + inner.height <= outer.y + outer.height;
+}
+
+function overlaps(a: CanvasNodeData, b: CanvasNodeData, gap: number): boolean {
+	return a.x < b.x + b.width + gap &&
+		b.x < a.x + a.width + gap &&
+		a.y < b.y + b.height + gap &&
+		b.y < a.y + a.height + gap;
+}
@@ -1,6 +1,6 @@
 import { App, TFile, EventRef } from 'obsidian';
-import { CanvasData, CanvasLinkData } from '../types';
-import { isValidUrl } from './utils';
+import { CanvasData, EnrichableNode } from '../types';
+import { toEnrichableNode } from './utils';
 
 export class CanvasMonitor {
 	private seenNodes: Map<string, Set<string>> = new Map(); // canvasPath -> nodeIds
@@ -9,7 +9,7 @@ export class CanvasMonitor {
 
 	constructor(
 		private app: App,
-		private onNewLinkNode: (file: TFile, node: CanvasLinkData) => void
+		private onNewNode: (file: TFile, node: EnrichableNode) => void
 	) {}
 
 	startWatching(): void {
@@ -43,34 +43,16 @@ export class CanvasMonitor {
 			const previouslySeen = this.seenNodes.get(canvasPath) || new Set<string>();
 			const currentNodes = new Set<string>();
 
-			// Find native link nodes
-			const linkNodes = canvasData.nodes.filter(
-				(node): node is CanvasLinkData => node.type === 'link'
-			);
+			// Link nodes, text nodes that contain just a URL (from Ctrl+V paste) and vault file nodes
+			const enrichableNodes = canvasData.nodes
+				.map(node => toEnrichableNode(node as unknown as Record<string, unknown>))
+				.filter((node): node is EnrichableNode => node !== null);
 
-			// Also find text nodes that contain just a URL (from Ctrl+V paste)
-			for (const node of canvasData.nodes) {
-				if (node.type === 'text' && 'text' in node) {
-					const text = (node as unknown as { text: string }).text.trim();
-					if (isValidUrl(text)) {
-						linkNodes.push({
-							id: node.id,
-							type: 'link',
-							url: text,
-							x: node.x,
-							y: node.y,
-							width: node.width,
-							height: node.height,
-						});
-					}
-				}
-			}
-
-			for (const node of linkNodes) {
+			for (const node of enrichableNodes) {
 				currentNodes.add(node.id);
 
 				if (!isFirstScan && !previouslySeen.has(node.id)) {
-					this.onNewLinkNode(file, node);
+					this.onNewNode(file, node);
 				}
 			}
 
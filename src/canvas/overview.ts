@@ -0,0 +1,72 @@
+import { CanvasData, CanvasNode } from '../types';
+import { truncateAtParagraph } from '../services/content-extractor';
+import { findCompanionId } from './card-placement';
+import { withGroupMembers } from './layout';
+
+/**
+ * One card's contribution to a canvas overview
+ */
+export interface OverviewSource {
+	nodeId: string;
+	text: string;
+}
+
+/**
+ * Collect the enriched descriptions of the cards to summarize: a node's companion card, or the node itself
+ * when enrichment replaced it with text. A node and its companion count once; cards that were never
+ * enriched are left out. Groups stand for the cards inside them.
+ * @param nodeIds - Nodes to include, or null for the whole canvas
+ * @param enrichedIds - Nodes the plugin has enriched, from the status store and history
+ */
+export function collectOverviewSources(data: CanvasData, nodeIds: string[] | null, enrichedIds: Set<string>): OverviewSource[] {
+	const included = nodeIds ? withGroupMembers(data, nodeIds) : null;
+	const companions = new Map<string, string>();
+	for (const node of data.nodes) {
+		const companionId = findCompanionId(data, node.id);
+		if (companionId) companions.set(node.id, companionId);
+	}
+	const companionIds = new Set(companions.values());
+	const byId = new Map(data.nodes.map(node => [node.id, node]));
+
+	// Read top to bottom, left to right, which is how most canvases are laid out
+	const nodes = data.nodes
+		.filter(node => node.type !== 'group' && !companionIds.has(node.id))
+		.sort((a, b) => a.y - b.y || a.x - b.x);
+
+	const sources: OverviewSource[] = [];
+	for (const node of nodes) {
+		const companionId = companions.get(node.id);
+		if (included && !included.has(node.id) && !(companionId && included.has(companionId))) continue;
+
+		const described = companionId ? byId.get(companionId) : enrichedIds.has(node.id) ? node : undefined;
+		const text = described?.type === 'text' ? nodeSourceText(described) : null;
+		if (text) sources.push({ nodeId: node.id, text });
+	}
+	return sources;
+}
+
+/**
+ * Number the sources and join them into one prompt context, sharing the length budget evenly
+ */
+export function buildOverviewContext(sources: OverviewSource[], maxLength: number): string {
+	const perSource = Math.max(200, Math.floor(maxLength / Math.max(1, sources.length)));
+	return sources
+		.map((source, index) => `Source ${index + 1}:\n${truncateAtParagraph(source.text, perSource)}`)
+		.join('\n\n---\n\n');
+}
+
+/**
+ * What a card contributes to AI context: text cards as written, links by URL and files by path
+ */
+export function nodeSourceText(node: CanvasNode): string | null {
+	switch (node.type) {
+		case 'text':
+			return node.text.trim() || null;
+		case 'link':
+			return node.url;
+		case 'file':
+			return `File: ${node.file}`;
+		default:
+			return null;
+	}
+}
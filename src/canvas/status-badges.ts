@@ -0,0 +1,80 @@
+import { LinkHealth, NodeEnrichmentStatus } from '../types';
+import { displayedState } from '../services/enrichment-status';
+
+const BADGE_CLASS = 'detailed-canvas-node-badge';
+const HEALTH_BADGE_CLASS = 'detailed-canvas-link-badge';
+
+const BADGE_LABELS = {
+	enriching: 'Enriching…',
+	enriched: 'Enriched',
+	failed: 'Enrichment failed',
+	stale: 'Enrichment is stale',
+};
+
+const HEALTH_LABELS = {
+	'ok': 'Link works',
+	'not-found': 'Link is dead',
+	'redirected': 'Link moved to another site',
+	'parked': 'Link points to a parked domain',
+	'unreachable': 'Link is unreachable',
+};
+
+/**
+ * Show each node's enrichment status as a badge in its corner, removing badges from nodes without one
+ * @param nodeEls - Rendered canvas nodes by id
+ * @param statuses - Statuses by node id; pass an empty record to clear all badges
+ * @param staleAfterDays - Age in days after which an enrichment shows as stale (0 = never)
+ */
+export function renderStatusBadges(
+	nodeEls: Map<string, HTMLElement>,
+	statuses: Record<string, NodeEnrichmentStatus>,
+	staleAfterDays: number
+): void {
+	for (const [nodeId, nodeEl] of nodeEls) {
+		const status = statuses[nodeId];
+		let badge = nodeEl.querySelector<HTMLElement>(`:scope > .${BADGE_CLASS}`);
+
+		if (!status) {
+			badge?.remove();
+			continue;
+		}
+
+		badge ??= nodeEl.createDiv({ cls: BADGE_CLASS });
+		const state = displayedState(status, staleAfterDays);
+		let label = BADGE_LABELS[state];
+		if (status.error) {
+			label += `: ${status.error}`;
+		} else if (state !== 'enriching') {
+			label += ` (${new Date(status.updatedAt).toLocaleString()})`;
+		}
+
+		badge.dataset.state = state;
+		badge.setAttr('aria-label', label);
+	}
+}
+
+/**
+ * Mark nodes whose link failed its last health check with a badge in the opposite corner,
+ * removing the mark from nodes whose link is fine or unchecked
+ * @param nodeEls - Rendered canvas nodes by id
+ * @param health - Health check results by node id; pass an empty record to clear all marks
+ */
+export function renderHealthBadges(
+	nodeEls: Map<string, HTMLElement>,
+	health: Record<string, LinkHealth>
+): void {
+	for (const [nodeId, nodeEl] of nodeEls) {
+		const result = health[nodeId];
+		let badge = nodeEl.querySelector<HTMLElement>(`:scope > .${HEALTH_BADGE_CLASS}`);
+
+		if (!result || result.state === 'ok') {
+			badge?.remove();
+			continue;
+		}
+
+		badge ??= nodeEl.createDiv({ cls: HEALTH_BADGE_CLASS, text: '!' });
+		const detail = result.detail ? `: ${result.detail}` : '';
+		badge.dataset.health = result.state;
+		badge.setAttr('aria-label', `${HEALTH_LABELS[result.state]}${detail} (checked ${new Date(result.checkedAt).toLocaleString()})`);
+	}
+}
@@ -1,3 +1,6 @@
+import { EnrichableNode } from '../types';
+import { getVaultFileKind } from '../services/vault-file-reader';
+
 export function isValidUrl(url: string): boolean {
 	try {
 		const urlObj = new URL(url);
@@ -16,3 +19,29 @@ export function generateNodeId(): string {
 	}
 	return id;
 }
+
+/**
+ * Turn raw canvas node data into a node the plugin can enrich:
+ * link cards, text cards holding just a URL (from Ctrl+V paste) and supported vault files
+ */
+export function toEnrichableNode(data: Record<string, unknown> | undefined): EnrichableNode | null {
+	if (!data || typeof data.id !== 'string') return null;
+	const position = {
+		id: data.id,
+		x: data.x as number,
+		y: data.y as number,
+		width: data.width as number,
+		height: data.height as number,
+	};
+
+	if (data.type === 'link' && typeof data.url === 'string' && isValidUrl(data.url)) {
+		return { ...position, type: 'link', url: data.url };
+	}
+	if (data.type === 'text' && typeof data.text === 'string' && isValidUrl(data.text.trim())) {
+		return { ...position, type: 'link', url: data.text.trim() };
+	}
+	if (data.type === 'file' && typeof data.file === 'string' && getVaultFileKind(data.file)) {
+		return { ...position, type: 'file', file: data.file };
+	}
+	return null;
+}
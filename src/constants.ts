@@ -1,4 +1,4 @@
-import { DetailedCanvasSettings } from './types';
+import { DetailedCanvasSettings, CardTemplatePreset, AIProviderType, PromptProfile } from './types';
 
 // Provider base URLs
 export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
@@ -6,6 +6,15 @@ export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
 export const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
 export const CLAUDE_BASE_URL = 'https://api.anthropic.com/v1';
 
+// Display names per provider
+export const PROVIDER_LABELS: Record<AIProviderType, string> = {
+  ollama: 'Ollama (local)',
+  openai: 'OpenAI',
+  claude: 'Claude (Anthropic)',
+  openrouter: 'OpenRouter',
+  groq: 'Groq',
+};
+
 // Default models per provider
 export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
 export const DEFAULT_OPENROUTER_MODEL = 'openai/gpt-4o-mini';
@@ -29,20 +38,170 @@ export const CLAUDE_MODELS = [
 // Ollama endpoints
 export const OLLAMA_GENERATE_ENDPOINT = '/api/generate';
 export const OLLAMA_TAGS_ENDPOINT = '/api/tags';
+export const OLLAMA_EMBEDDINGS_ENDPOINT = '/api/embeddings';
+
+// Card template presets ({{field}} placeholders, {{#field}}...{{/field}} shown only when field is set)
+export const CARD_TEMPLATE_PRESETS: Record<Exclude<CardTemplatePreset, 'custom'>, string> = {
+  'full': '{{#ogImage}}![]({{ogImage}})\n\n{{/ogImage}}## [{{title}}]({{url}})\n\n{{summary}}{{#keyPoints}}\n\n{{keyPoints}}{{/keyPoints}}\n\n*{{siteName}}*{{#readingTime}} · {{readingTime}}{{/readingTime}}{{#details}}\n\n{{details}}{{/details}}{{#tags}}\n\n{{tags}}{{/tags}}{{#noteLink}}\n\n{{noteLink}}{{/noteLink}}',
+  'compact': '**[{{title}}]({{url}})**\n{{summary}}\n\n*{{domain}} · {{date}}*',
+  'image-only': '{{#ogImage}}[![{{title}}]({{ogImage}})]({{url}}){{/ogImage}}{{^ogImage}}## [{{title}}]({{url}}){{/ogImage}}',
+};
+
+// Card for canvas file nodes (vault notes, PDFs, images)
+export const FILE_CARD_TEMPLATE = '{{summary}}{{#keyPoints}}\n\n{{keyPoints}}{{/keyPoints}}{{#tags}}\n\n{{tags}}{{/tags}}\n\n*{{fileLink}}{{#details}} · {{details}}{{/details}}*';
+
+// Companion cards: a text card next to the original node, joined by a labelled edge
+export const COMPANION_EDGE_LABEL = 'Summary'; // marks the edge from a node to its companion card
+export const COMPANION_GAP = 40; // horizontal space between a node and its companion card
+export const GROUP_PADDING = 20; // space between a group's border and the cards inside it
+export const CLUSTER_GAP = 80; // space between groups created from suggested clusters
+export const LAYOUT_GAP = 20; // minimum space kept between a resized card and its neighbors
+
+// Vault files
+export const IMAGE_DESCRIPTION_PROMPT = 'Describe this image in 2-3 sentences: what it shows, and any text, data or diagram it contains. Be concise and informative.';
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // largest image sent to vision models (Claude's limit)
+
+// Link health checks
+export const LINK_CHECK_POLL_INTERVAL = 60 * 60 * 1000; // how often to see whether a scheduled check is due
+export const WEB_ARCHIVE_URL = 'https://web.archive.org/web/*/'; // followed by the URL: lists the archived snapshots
+// Domain parking and domain-for-sale services, matched against the hosts of a page's scripts, frames and forms
+export const PARKING_SERVICE_HOSTS = [
+  'sedoparking.com',
+  'parkingcrew.net',
+  'bodis.com',
+  'parklogic.com',
+  'hugedomains.com',
+  'afternic.com',
+  'dan.com',
+];
+// Phrases of parking pages (lowercase), matched against the title and the text of short pages only
+export const PARKED_PAGE_PHRASES = [
+  'this domain is for sale',
+  'this domain may be for sale',
+  'buy this domain',
+  'this domain is parked',
+  'parked free, courtesy of godaddy',
+];
+export const PARKED_PAGE_MAX_TEXT = 1500; // longer pages are real sites that merely mention these phrases
+
+// Downloaded images
+export const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024; // larger preview images are left remote
+
+// Built-in prompt profiles
+export const DEFAULT_PROMPT_PROFILES: PromptProfile[] = [
+  {
+    id: 'research-paper',
+    name: 'Research paper summary',
+    prompt: 'Summarize this research paper in 3-4 sentences: the problem it addresses, the method, and the main result. Mention the field if it is not obvious.',
+    hostPatterns: ['arxiv.org', 'biorxiv.org', 'medrxiv.org', 'semanticscholar.org', 'openreview.net', 'aclanthology.org'],
+    provider: '',
+    model: '',
+    maxLength: 700,
+  },
+  {
+    id: 'github-repo',
+    name: 'GitHub repo',
+    prompt: 'Describe this software project in 2-3 sentences: what it does, who it is for, and the main language or technology. Skip installation instructions.',
+    hostPatterns: ['github.com', 'gitlab.com', 'codeberg.org'],
+    provider: '',
+    model: '',
+    maxLength: 0,
+  },
+  {
+    id: 'product-page',
+    name: 'Product page',
+    prompt: 'Describe this product in 2 sentences: what it is and its key features. Include the price if it is stated.',
+    hostPatterns: ['amazon.*', '*.amazon.*', 'ebay.com', 'etsy.com', 'producthunt.com'],
+    provider: '',
+    model: '',
+    maxLength: 0,
+  },
+  {
+    id: 'news-article',
+    name: 'News article',
+    prompt: 'Summarize this news article in 2-3 sentences: what happened, who is involved, and why it matters. Keep a neutral tone.',
+    hostPatterns: ['nytimes.com', 'bbc.com', 'bbc.co.uk', 'theguardian.com', 'reuters.com', 'apnews.com', 'washingtonpost.com'],
+    provider: '',
+    model: '',
+    maxLength: 0,
+  },
+];
+
+// Canvas overviews
+export const OVERVIEW_PROMPT = `These are the cards of a research canvas: link summaries, notes and file references. Write a short research brief in Markdown with three sections:
+### Main themes
+The main topics the sources cover.
+### How the sources relate
+Where sources agree, disagree, build on or complement each other. Refer to sources by title.
+### Open questions
+What the sources leave unanswered and what to look into next.
+Be concise and only use information from the sources.`;
+export const MAX_OVERVIEW_CONTEXT = 30000; // characters of card text sent to the provider
+
+// Suggested links and clusters
+export const MAX_RELATIONSHIP_CARDS = 100; // cards sent in one relationship suggestion request
+
+// Semantic search
+export const MAX_EMBEDDING_TEXT = 4000; // characters of card and page text embedded per card
+export const EMBEDDING_BATCH_SIZE = 32; // cards embedded per request when rebuilding the index
+export const SEARCH_RESULT_LIMIT = 20;
+
+// Plugin data files (relative to the plugin folder)
+export const CACHE_FILE_NAME = 'enrichment-cache.json';
+export const CACHE_MAX_ENTRIES = 500; // newest URLs kept in the enrichment cache, each holds up to 10k characters of page text
+export const HISTORY_FILE_NAME = 'enrichment-history.json'; // pre-enrichment card states, for revert
+export const STATUS_FILE_NAME = 'enrichment-status.json'; // last enrichment status of each node
+export const EMBEDDING_INDEX_FILE_NAME = 'embedding-index.json'; // card embeddings for semantic search
+export const LINK_HEALTH_FILE_NAME = 'link-health.json'; // last health check of each link card
 
 // Timeouts
 export const REQUEST_TIMEOUT = 30000; // 30 seconds
 export const AI_TIMEOUT = 60000; // 60 seconds for AI generation
+export const STREAM_UPDATE_INTERVAL = 250; // minimum ms between card updates while streaming
+
+// Retry backoff for AI provider requests
+export const RETRY_BASE_DELAY = 1000; // first retry waits up to 1 second
+export const RETRY_MAX_DELAY = 60000; // never wait longer than 60 seconds
 
 export const DEFAULT_SETTINGS: DetailedCanvasSettings = {
   ollamaEndpoint: 'http://localhost:11434',
   ollamaModel: 'llama3.2',
   autoEnrichOnPaste: true,
+  autoEnrichFileNodes: false,
+  fileSummaryTarget: 'card',
+  fileSummaryProperty: 'summary',
   notesFolder: 'Canvas Notes',
+  createNotes: false,
+  cardTemplatePreset: 'full',
+  cardTemplate: CARD_TEMPLATE_PRESETS.full,
+  cardOutputMode: 'replace',
+  autoResizeCards: true,
+  preferredCardWidth: 400,
+  downloadImages: false,
+  downloadFavicons: false,
+  attachmentsFolder: 'Canvas Attachments',
+  showStatusBadges: true,
+  linkCheckIntervalDays: 0,
+  staleAfterDays: 90,
+  enrichPastedUrlsInNotes: false,
+  noteLinkImage: true,
+  overviewTarget: 'card',
+  overviewPrompt: OVERVIEW_PROMPT,
+  embeddingProvider: 'off',
+  embeddingModel: 'nomic-embed-text',
+  cacheEnabled: true,
+  cacheTtlDays: 30,
+  batchConcurrency: 3,
+  hostDelayMs: 1000,
+  maxRetryAttempts: 4,
+  streamGeneration: false,
+  structuredOutput: false,
   descriptionPrompt: 'Summarize this web page content in 2-3 sentences. Focus on the main topic and key points. Be concise and informative.',
+  promptProfiles: DEFAULT_PROMPT_PROFILES,
   maxDescriptionLength: 500,
   showNotifications: true,
   aiProvider: 'ollama',
+  providerFallbacks: [],
   openaiApiKey: '',
   openaiModel: DEFAULT_OPENAI_MODEL,
   openaiBaseUrl: '',
@@ -1,11 +1,41 @@
-import { Plugin, TFile, Notice, Menu, ItemView } from 'obsidian';
-import { DetailedCanvasSettings, AIProvider, CanvasLinkData, EnrichmentResult, CanvasNodeInstance } from './types';
-import { DEFAULT_SETTINGS } from './constants';
+import { Plugin, TFile, TFolder, Notice, Menu, ItemView, MarkdownView, WorkspaceLeaf, normalizePath } from 'obsidian';
+import { DetailedCanvasSettings, CanvasData, CanvasFileData, CardOutputMode, CanvasLinkData, DescriptionSource, EnrichableNode, EnrichmentResult, EnrichmentState, EnrichOptions, CanvasNodeInstance, GeneratedDescription, LinkHealth, PromptProfile, RelationshipSuggestions, RunReportItem, UrlMetadata } from './types';
+import { DEFAULT_SETTINGS, CACHE_FILE_NAME, HISTORY_FILE_NAME, STATUS_FILE_NAME, EMBEDDING_INDEX_FILE_NAME, LINK_HEALTH_FILE_NAME, LINK_CHECK_POLL_INTERVAL, EMBEDDING_BATCH_SIZE, MAX_EMBEDDING_TEXT, SEARCH_RESULT_LIMIT, LAYOUT_GAP, MAX_OVERVIEW_CONTEXT, MAX_RELATIONSHIP_CARDS, CARD_TEMPLATE_PRESETS, FILE_CARD_TEMPLATE, IMAGE_DESCRIPTION_PROMPT } from './constants';
 import { DetailedCanvasSettingTab } from './settings';
-import { createProvider } from './services/provider-factory';
+import { createProviderChain, createEmbeddingProvider, applyProfileOverrides } from './services/provider-factory';
+import { FallbackProvider } from './services/fallback-provider';
 import { ScraperService } from './services/scraper';
+import { throttleStream } from './services/streaming';
+import { NoteWriter } from './services/note-writer';
+import { EnrichmentCache } from './services/enrichment-cache';
+import { AddedCanvasItems, EnrichmentHistory, OriginalCardState } from './services/enrichment-history';
+import { EnrichmentQueue, QueueProgress } from './services/enrichment-queue';
+import { EnrichmentStatusStore, displayedState } from './services/enrichment-status';
+import { EmbeddingIndex, IndexedCard, SearchResult } from './services/embedding-index';
+import { ProviderHttpError } from './services/retry';
+import { resolveProfile } from './services/prompt-profiles';
+import { generateStructured } from './services/structured-output';
+import { suggestRelationships } from './services/relationship-suggester';
+import { readVaultFile } from './services/vault-file-reader';
+import { ImageDownloader, toMarkdownLinkPath } from './services/image-downloader';
+import { buildBrokenLinksReport, buildRunReport } from './services/run-report';
+import { archiveUrl, checkLinks } from './services/link-checker';
+import { LinkHealthStore } from './services/link-health';
 import { CanvasMonitor } from './canvas/monitor';
-import { isValidUrl } from './canvas/utils';
+import { isValidUrl, toEnrichableNode } from './canvas/utils';
+import { CardTemplateValues, buildCardValues, buildFileCardValues, renderCardTemplate } from './canvas/card-template';
+import { addCompanionCard, addNodeBeside, findCompanionId, findEnclosingGroup, replaceWithTextNode, restoreNode, wrapInGroup } from './canvas/card-placement';
+import { readCanvasMetadata, updateCanvasMetadata } from './canvas/canvas-metadata';
+import { buildLinkBlock, findBareUrls, locateBareUrl } from './markdown/link-block';
+import { CanvasWriter, LiveCanvas } from './canvas/canvas-writer';
+import { MAX_CARD_HEIGHT, MIN_CARD_HEIGHT, estimateCardHeight, fitGroups, groupMembers, measureRenderedHeight, pushOverlappingNodes, resizeNode } from './canvas/layout';
+import { renderHealthBadges, renderStatusBadges } from './canvas/status-badges';
+import { buildOverviewContext, collectOverviewSources } from './canvas/overview';
+import { addSuggestedEdges, arrangeClusters, cardTitle, collectCardUnits } from './canvas/clustering';
+import { FolderSuggestModal } from './ui/folder-suggest-modal';
+import { ProfileSuggestModal } from './ui/profile-suggest-modal';
+import { RelationshipPreviewModal } from './ui/relationship-preview-modal';
+import { SemanticSearchModal } from './ui/semantic-search-modal';
 
 // Module augmentation for internal canvas events
 declare module 'obsidian' {
@@ -17,22 +47,80 @@ declare module 'obsidian' {
 export default class DetailedCanvasPlugin extends Plugin {
   settings!: DetailedCanvasSettings;
 
-  private aiProvider!: AIProvider;
+  private aiProvider!: FallbackProvider;
   private scraperService!: ScraperService;
+  private noteWriter!: NoteWriter;
+  private enrichmentCache!: EnrichmentCache;
+  private enrichmentHistory!: EnrichmentHistory;
+  private enrichmentStatus!: EnrichmentStatusStore;
+  private embeddingIndex!: EmbeddingIndex;
+  private enrichmentQueue!: EnrichmentQueue;
+  private statusBarEl!: HTMLElement;
   private canvasMonitor!: CanvasMonitor;
+  private canvasWriter!: CanvasWriter;
+  private imageDownloader!: ImageDownloader;
+  private linkHealth!: LinkHealthStore;
+  private checkingLinks = false;
   private processingNodes: Set<string> = new Set(); // Prevent duplicate processing
 
   async onload() {
     await this.loadSettings();
 
     // Initialize services
-    this.aiProvider = createProvider(this.settings);
+    this.aiProvider = createProviderChain(this.settings);
     this.scraperService = new ScraperService();
+    this.noteWriter = new NoteWriter(this.app);
+    this.canvasWriter = new CanvasWriter(this.app);
+    this.imageDownloader = new ImageDownloader(this.app);
+    this.enrichmentCache = new EnrichmentCache(
+      this.app,
+      normalizePath(`${this.manifest.dir ?? ''}/${CACHE_FILE_NAME}`)
+    );
+    this.enrichmentHistory = new EnrichmentHistory(
+      this.app,
+      normalizePath(`${this.manifest.dir ?? ''}/${HISTORY_FILE_NAME}`)
+    );
+    // The context menu checks the history synchronously
+    void this.enrichmentHistory.preload();
+    this.enrichmentStatus = new EnrichmentStatusStore(
+      this.app,
+      normalizePath(`${this.manifest.dir ?? ''}/${STATUS_FILE_NAME}`)
+    );
+    void this.enrichmentStatus.preload().then(() => this.refreshStatusBadges());
+    this.embeddingIndex = new EmbeddingIndex(
+      this.app,
+      normalizePath(`${this.manifest.dir ?? ''}/${EMBEDDING_INDEX_FILE_NAME}`)
+    );
+    this.linkHealth = new LinkHealthStore(
+      this.app,
+      normalizePath(`${this.manifest.dir ?? ''}/${LINK_HEALTH_FILE_NAME}`)
+    );
+    void this.linkHealth.preload().then(() => this.refreshStatusBadges());
+
+    // Scheduled link health checks: look every hour (and once the vault is ready) whether one is due
+    this.app.workspace.onLayoutReady(() => { void this.runScheduledLinkCheck(); });
+    this.registerInterval(window.setInterval(() => { void this.runScheduledLinkCheck(); }, LINK_CHECK_POLL_INTERVAL));
+
+    // Canvas nodes are re-rendered when a canvas is opened or changed, so badges are re-applied
+    this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.refreshStatusBadges()));
+    this.registerEvent(this.app.workspace.on('layout-change', () => this.refreshStatusBadges()));
+
+    // Initialize batch queue with a status bar progress indicator
+    this.statusBarEl = this.addStatusBarItem();
+    this.statusBarEl.addClass('detailed-canvas-status');
+    this.renderQueueProgress(null);
+    this.enrichmentQueue = new EnrichmentQueue(
+      () => ({
+        concurrency: this.settings.batchConcurrency,
+        hostDelayMs: this.settings.hostDelayMs,
+      }),
+      (progress) => this.renderQueueProgress(progress)
+    );
 
     // Initialize canvas monitor
     this.canvasMonitor = new CanvasMonitor(
       this.app,
-      (file, node) => { void this.handleNewLinkNode(file, node); }
+      (file, node) => { void this.handleNewNode(file, node); }
     );
 
     // Start watching if auto-enrich is enabled
@@ -43,16 +131,16 @@ export default class DetailedCanvasPlugin extends Plugin {
     // Register commands
     this.addCommand({
       id: 'enrich-selected-link',
-      name: 'Enrich selected link card',
+      name: 'Enrich selected cards',
       checkCallback: (checking: boolean) => {
         const canvasView = this.getActiveCanvasView();
         if (!canvasView) return false;
 
-        const selection = this.getSelectedLinkNodes(canvasView);
+        const selection = this.getSelectedNodes(canvasView);
         if (selection.length === 0) return false;
 
         if (!checking) {
-          void this.enrichSelectedLinks(canvasView);
+          void this.enrichSelectedNodes(canvasView);
         }
         return true;
       }
@@ -60,48 +148,304 @@ export default class DetailedCanvasPlugin extends Plugin {
 
     this.addCommand({
       id: 'enrich-all-links',
-      name: 'Enrich all link cards in canvas',
+      name: 'Enrich all cards in canvas',
+      checkCallback: (checking: boolean) => {
+        const canvasFile = this.getActiveCanvasFile();
+        if (!canvasFile) return false;
+
+        if (!checking) {
+          void this.enrichAllNodesInCanvas(canvasFile);
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'enrich-vault-canvases',
+      name: 'Enrich new cards in all canvases of the vault or a folder',
+      callback: () => {
+        new FolderSuggestModal(this.app, (folder) => { void this.enrichCanvasesInFolder(folder); }).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'write-canvas-overview',
+      name: 'Write AI overview of canvas or selection',
+      checkCallback: (checking: boolean) => {
+        const canvasView = this.getActiveCanvasView();
+        const canvasFile = this.getActiveCanvasFile();
+        if (!canvasView || !canvasFile) return false;
+
+        if (!checking) {
+          const selectedIds = this.getSelectedNodeIds(canvasView);
+          if (selectedIds.length > 0) {
+            void this.writeCanvasOverview(canvasFile, selectedIds, `${canvasFile.basename} selection overview`);
+          } else {
+            void this.writeCanvasOverview(canvasFile, null, `${canvasFile.basename} overview`);
+          }
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'suggest-card-relationships',
+      name: 'Suggest links and clusters between cards',
+      checkCallback: (checking: boolean) => {
+        const canvasView = this.getActiveCanvasView();
+        const canvasFile = this.getActiveCanvasFile();
+        if (!canvasView || !canvasFile) return false;
+
+        if (!checking) {
+          const selectedIds = this.getSelectedNodeIds(canvasView);
+          void this.suggestCardRelationships(canvasFile, selectedIds.length > 0 ? selectedIds : null);
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'set-canvas-prompt-profile',
+      name: 'Set prompt profile for this canvas',
+      checkCallback: (checking: boolean) => {
+        const canvasFile = this.getActiveCanvasFile();
+        if (!canvasFile) return false;
+
+        if (!checking) {
+          new ProfileSuggestModal(this.app, this.settings.promptProfiles, (profile) => {
+            void updateCanvasMetadata(this.app, canvasFile, { profile: profile.id || undefined }).then(() => {
+              new Notice(profile.id ? `Canvas prompt profile: ${profile.name}` : 'Canvas prompt profile cleared');
+            }).catch((error) => {
+              console.error('Failed to set canvas prompt profile:', error);
+              new Notice(`Failed to set canvas prompt profile: ${error instanceof Error ? error.message : String(error)}`);
+            });
+          }, true).open();
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'cancel-enrichment',
+      name: 'Cancel enrichment',
+      checkCallback: (checking: boolean) => {
+        if (!this.enrichmentQueue.isRunning()) return false;
+
+        if (!checking) {
+          this.enrichmentQueue.cancel();
+          new Notice('Enrichment cancelled. Cards already in progress will finish.');
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'revert-all-enrichments',
+      name: 'Revert all enriched cards in canvas',
       checkCallback: (checking: boolean) => {
         const canvasFile = this.getActiveCanvasFile();
         if (!canvasFile) return false;
 
         if (!checking) {
-          void this.enrichAllLinksInCanvas(canvasFile);
+          void (async () => {
+            const states = await this.enrichmentHistory.list(canvasFile.path);
+            const count = await this.revertEnrichments(canvasFile, Object.keys(states));
+            new Notice(count > 0 ? `Reverted ${count} enriched cards` : 'No enriched cards to revert in this canvas');
+          })();
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'select-failed-cards',
+      name: 'Select failed cards',
+      checkCallback: (checking: boolean) => {
+        if (!this.getActiveCanvasFile()) return false;
+        if (!checking) this.selectNodesByStatus('failed');
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'select-stale-cards',
+      name: 'Select stale cards',
+      checkCallback: (checking: boolean) => {
+        if (!this.getActiveCanvasFile()) return false;
+        if (!checking) this.selectNodesByStatus('stale');
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'search-enriched-links',
+      name: 'Search enriched links',
+      callback: () => {
+        if (this.settings.embeddingProvider === 'off') {
+          new Notice('Semantic search is off. Choose an embedding provider in settings.');
+          return;
+        }
+        new SemanticSearchModal(
+          this.app,
+          (query) => this.searchEnrichedCards(query),
+          (result) => { void this.openCanvasNode(result); }
+        ).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'rebuild-search-index',
+      name: 'Rebuild search index',
+      callback: () => { void this.rebuildSearchIndex(); }
+    });
+
+    this.addCommand({
+      id: 'clear-enrichment-cache',
+      name: 'Clear enrichment cache',
+      callback: async () => {
+        const removed = await this.enrichmentCache.clear();
+        new Notice(`Cleared ${removed} cached enrichments`);
+      }
+    });
+
+    this.addCommand({
+      id: 'enrich-url-in-note',
+      name: 'Enrich link on current line',
+      editorCheckCallback: (checking, editor, ctx) => {
+        const line = editor.getCursor().line;
+        const bare = findBareUrls(editor.getValue()).find(url => url.line === line);
+        if (!bare || !ctx.file) return false;
+
+        if (!checking) {
+          void this.enrichNoteUrl(ctx.file, bare.url, bare.line);
         }
         return true;
       }
     });
 
+    this.addCommand({
+      id: 'enrich-all-urls-in-note',
+      name: 'Enrich all bare links in note',
+      editorCallback: (editor, ctx) => {
+        if (ctx.file) void this.enrichAllUrlsInNote(ctx.file, editor.getValue());
+      }
+    });
+
+    // Turn a URL pasted on an empty line of a note into a link block
+    this.registerEvent(
+      this.app.workspace.on('editor-paste', (evt, editor, info) => {
+        if (!this.settings.enrichPastedUrlsInNotes || evt.defaultPrevented || !info.file) return;
+
+        const url = evt.clipboardData?.getData('text/plain').trim() ?? '';
+        const line = editor.getCursor().line;
+        if (!isValidUrl(url) || /\s/.test(url) || editor.somethingSelected() || editor.getLine(line).trim()) return;
+
+        evt.preventDefault();
+        editor.replaceSelection(url);
+        void this.enrichNoteUrl(info.file, url, line);
+      })
+    );
+
+    this.addCommand({
+      id: 'check-link-health',
+      name: 'Check link health in all canvases',
+      checkCallback: (checking: boolean) => {
+        if (this.checkingLinks) return false;
+        if (!checking) void this.checkLinkHealth(true);
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'clean-up-downloaded-images',
+      name: 'Clean up unused downloaded images',
+      callback: () => { void this.cleanUpDownloadedImages(); }
+    });
+
     // Register context menu for canvas nodes
     // Note: 'canvas:node-menu' is not in the official Obsidian API types, but works in practice
     this.registerEvent(
       this.app.workspace.on('canvas:node-menu', (menu: Menu, node: CanvasNodeInstance) => {
+        const canvasFile = this.getActiveCanvasFile();
         const nodeData = node.getData?.();
-        const isLinkNode = nodeData && nodeData.type === 'link' && typeof nodeData.url === 'string' && isValidUrl(nodeData.url);
-        const isTextNodeWithUrl = nodeData && nodeData.type === 'text' && 'text' in nodeData && typeof (nodeData as unknown as { text: string }).text === 'string' && isValidUrl((nodeData as unknown as { text: string }).text.trim());
-        if (isLinkNode || isTextNodeWithUrl) {
+        const nodeId = nodeData?.id;
+
+        if (canvasFile && typeof nodeId === 'string' && nodeData?.type === 'group') {
+          const label = typeof nodeData.label === 'string' && nodeData.label ? nodeData.label : 'Group';
           menu.addItem((item) => {
             item
-              .setTitle('Enrich with AI description')
-              .setIcon('sparkles')
+              .setTitle('Write AI overview of group')
+              .setIcon('scroll-text')
+              .onClick(() => { void this.writeCanvasOverview(canvasFile, [nodeId], `${label} overview`); });
+          });
+        }
+
+        const record = canvasFile && typeof nodeId === 'string'
+          ? this.enrichmentHistory.find(canvasFile.path, nodeId)
+          : null;
+        if (canvasFile && record) {
+          menu.addItem((item) => {
+            item
+              .setTitle('Revert enrichment')
+              .setIcon('rotate-ccw')
               .onClick(() => {
-                const canvasFile = this.getActiveCanvasFile();
-                if (canvasFile) {
-                  let linkData: CanvasLinkData;
-                  if (nodeData.type === 'link') {
-                    linkData = nodeData as unknown as CanvasLinkData;
-                  } else {
-                    const textData = nodeData as unknown as { id: string; text: string; x: number; y: number; width: number; height: number };
-                    linkData = {
-                      id: textData.id, type: 'link', url: textData.text.trim(),
-                      x: textData.x, y: textData.y, width: textData.width, height: textData.height,
-                    } as CanvasLinkData;
-                  }
-                  void this.enrichLinkNode(canvasFile, linkData);
-                }
+                void this.revertEnrichments(canvasFile, [record.sourceId]).then(count => {
+                  if (count === 0) new Notice('Could not revert this card');
+                });
               });
           });
         }
+
+        const health = canvasFile && typeof nodeId === 'string' ? this.linkHealth.list(canvasFile.path)[nodeId] : undefined;
+        if (health && health.state !== 'ok') {
+          menu.addItem((item) => {
+            item
+              .setTitle('Look up in web archive')
+              .setIcon('archive')
+              .onClick(() => { window.open(archiveUrl(health.url)); });
+          });
+        }
+
+        const target = toEnrichableNode(node.getData?.());
+        if (target) {
+          const isFile = target.type === 'file';
+          const enrichFromMenu = (options: EnrichOptions) => {
+            const canvasFile = this.getActiveCanvasFile();
+            if (canvasFile) {
+              void this.enrichNode(canvasFile, target, options);
+            }
+          };
+
+          menu.addItem((item) => {
+            item
+              .setTitle(isFile ? 'Summarize file with AI' : 'Enrich with AI description')
+              .setIcon('sparkles')
+              .onClick(() => enrichFromMenu({}));
+          });
+
+          if (this.settings.promptProfiles.length > 0) {
+            menu.addItem((item) => {
+              item
+                .setTitle('Enrich with prompt profile...')
+                .setIcon('list')
+                .onClick(() => {
+                  new ProfileSuggestModal(this.app, this.settings.promptProfiles, (profile) => {
+                    enrichFromMenu({ profileId: profile.id });
+                  }).open();
+                });
+            });
+          }
+
+          // Vault files are read fresh every time, so only links have a cache to bypass
+          if (this.settings.cacheEnabled && !isFile) {
+            menu.addItem((item) => {
+              item
+                .setTitle('Enrich with AI description (force refresh)')
+                .setIcon('refresh-cw')
+                .onClick(() => enrichFromMenu({ forceRefresh: true }));
+            });
+          }
+        }
       })
     );
 
@@ -111,17 +455,23 @@ export default class DetailedCanvasPlugin extends Plugin {
 
   onunload() {
     this.canvasMonitor?.stopWatching();
+    this.enrichmentQueue?.cancel();
   }
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+    // Built-in presets follow plugin updates; only custom templates are kept verbatim
+    if (this.settings.cardTemplatePreset !== 'custom') {
+      this.settings.cardTemplate = CARD_TEMPLATE_PRESETS[this.settings.cardTemplatePreset];
+    }
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
 
     // Update services with new settings
-    this.aiProvider = createProvider(this.settings);
+    this.aiProvider = createProviderChain(this.settings);
 
     // Toggle canvas monitoring based on settings
     if (this.settings.autoEnrichOnPaste) {
@@ -129,18 +479,31 @@ export default class DetailedCanvasPlugin extends Plugin {
     } else {
       this.canvasMonitor?.stopWatching();
     }
+
+    this.refreshStatusBadges();
   }
 
-  // Handle new link node from canvas monitor
-  private async handleNewLinkNode(file: TFile, node: CanvasLinkData) {
+  // Handle new link or file node from canvas monitor
+  private async handleNewNode(file: TFile, node: EnrichableNode) {
     if (!this.settings.autoEnrichOnPaste) return;
-    if (!isValidUrl(node.url)) return;
+    if (node.type === 'file') {
+      if (!this.settings.autoEnrichFileNodes) return;
+    } else if (!isValidUrl(node.url)) {
+      return;
+    }
+
+    await this.enrichNode(file, node);
+  }
 
-    await this.enrichLinkNode(file, node);
+  // Enrich a link or file node
+  enrichNode(canvasFile: TFile, node: EnrichableNode, options: EnrichOptions = {}): Promise<EnrichmentResult> {
+    return node.type === 'file'
+      ? this.enrichFileNode(canvasFile, node, options)
+      : this.enrichLinkNode(canvasFile, node, options);
   }
 
   // Main enrichment logic
-  async enrichLinkNode(canvasFile: TFile, node: CanvasLinkData): Promise<EnrichmentResult> {
+  async enrichLinkNode(canvasFile: TFile, node: CanvasLinkData, options: EnrichOptions = {}): Promise<EnrichmentResult> {
     const nodeKey = `${canvasFile.path}:${node.id}`;
 
     // Prevent duplicate processing
@@ -151,54 +514,65 @@ export default class DetailedCanvasPlugin extends Plugin {
     this.processingNodes.add(nodeKey);
 
     try {
-      // Show placeholder text on the card while processing
-      await this.updateCanvasNodeTextWithRetry(node.id, `Loading...\n\n${node.url}`);
+      // Place the card for the output mode and show placeholder text while processing
+      const cardId = await this.prepareCardNode(canvasFile, node.id, `Loading...\n\n${node.url}`, this.settings.cardOutputMode) ?? node.id;
+      await this.setNodeStatus(canvasFile, node.id, 'enriching');
 
       if (this.settings.showNotifications) {
         new Notice(`Enriching: ${node.url}`);
       }
 
-      // Step 1: Scrape the URL
-      const metadata = await this.scraperService.scrape(node.url);
-      if (!metadata) {
-        throw new Error('Failed to fetch URL content');
-      }
+      // Pick the prompt profile: menu override > canvas setting > host pattern
+      const canvasMetadata = await readCanvasMetadata(this.app, canvasFile);
+      const profile = resolveProfile(this.settings.promptProfiles, node.url, options.profileId, canvasMetadata.profile);
 
-      // Step 2: Generate AI description
-      let aiDescription = '';
-      try {
-        aiDescription = await this.aiProvider.generate(
-          this.settings.descriptionPrompt,
-          metadata.textContent
-        );
-      } catch (err) {
-        console.warn('AI generation failed, using metadata description:', err);
-        aiDescription = metadata.description || 'No description available.';
+      // Steps 1-2: Scrape the URL and generate the AI description (or reuse cached ones),
+      // showing partial output on the card while streaming
+      const { metadata, generated } = await this.describeUrl(node.url, profile, options, (text) => {
+        this.canvasWriter.setLiveNodeText(canvasFile, cardId, `${text}\u2026\n\n${node.url}`);
+      });
+      const aiDescription = generated.text;
+      const provider = generated.provider;
+
+      // Step 3: Write the linked note (optional)
+      let notePath: string | undefined;
+      if (this.settings.createNotes) {
+        notePath = await this.noteWriter.writeNote(this.settings.notesFolder, metadata, aiDescription, {
+          provider,
+          structured: generated.structured,
+        });
       }
 
-      // Step 3: Build enriched card text
-      const title = metadata.title || new URL(node.url).hostname;
-      const desc = aiDescription.substring(0, this.settings.maxDescriptionLength);
-      const siteName = metadata.siteName || new URL(node.url).hostname;
-      const imageLine = metadata.ogImage ? `![](${metadata.ogImage})\n\n` : '';
-      const cardText = `${imageLine}## [${title}](${node.url})\n\n${desc}\n\n*${siteName}*`;
+      // Step 4: Build enriched card text
+      const desc = aiDescription.substring(0, profile?.maxLength || this.settings.maxDescriptionLength);
+      const cardValues = buildCardValues(metadata, desc, { notePath, provider, structured: generated.structured });
+      await this.useLocalImages(cardValues);
+      const title = cardValues.title;
+      const cardText = renderCardTemplate(this.settings.cardTemplate, cardValues);
 
-      // Step 4: Update the text node directly on the canvas
-      const updated = await this.updateCanvasNodeTextWithRetry(node.id, cardText);
+      // Step 5: Update the text node directly on the canvas
+      const updated = await this.updateCanvasNodeTextWithRetry(canvasFile, cardId, cardText);
 
       if (!updated) {
         throw new Error('Failed to update canvas node');
       }
 
+      if (this.settings.autoResizeCards) {
+        await this.layoutCard(canvasFile, cardId, cardText);
+      }
+
+      await this.setNodeStatus(canvasFile, node.id, 'enriched');
+      await this.indexCard(canvasFile.path, cardId, title, [desc, metadata.description, metadata.textContent]);
       if (this.settings.showNotifications) {
         new Notice(`Enriched: ${title}`);
       }
 
-      return { success: true };
+      return { success: true, notePath, provider };
 
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error('Enrichment failed:', errorMsg);
+      await this.setNodeStatus(canvasFile, node.id, 'failed', errorMsg);
 
       if (this.settings.showNotifications) {
         new Notice(`Enrichment failed: ${errorMsg}`);
@@ -211,41 +585,347 @@ export default class DetailedCanvasPlugin extends Plugin {
     }
   }
 
-  // Update a canvas node's text content directly through the internal API
-  private updateCanvasNodeText(nodeId: string, newText: string): boolean {
+  // Summarize a vault note, PDF or image shown as a file node, into a companion card or a note property
+  async enrichFileNode(canvasFile: TFile, node: CanvasFileData, options: EnrichOptions = {}): Promise<EnrichmentResult> {
+    const nodeKey = `${canvasFile.path}:${node.id}`;
+
+    // Prevent duplicate processing
+    if (this.processingNodes.has(nodeKey)) {
+      return { success: false, error: 'Already processing' };
+    }
+
+    this.processingNodes.add(nodeKey);
+
     try {
-      const view = this.getActiveCanvasView();
-      if (!view || !('canvas' in view)) return false;
+      await this.setNodeStatus(canvasFile, node.id, 'enriching');
+      const file = this.app.vault.getAbstractFileByPath(node.file);
+      if (!(file instanceof TFile)) {
+        throw new Error(`File not found: ${node.file}`);
+      }
 
-      type CanvasInternal = {
-        nodes: Map<string, { setText?: (text: string) => void; requestSave?: () => void }>;
-        requestSave?: () => void;
-      };
+      // Only notes have properties; PDFs and images always get a companion card (optionally grouped)
+      const toFrontmatter = this.settings.fileSummaryTarget === 'frontmatter' && file.extension === 'md';
+      const mode: CardOutputMode = this.settings.cardOutputMode === 'group' ? 'group' : 'companion';
+      let companionId: string | null = null;
+      if (!toFrontmatter) {
+        companionId = await this.prepareCardNode(canvasFile, node.id, `Summarizing...\n\n${file.basename}`, mode);
+        if (!companionId) {
+          throw new Error('Failed to add summary card to canvas');
+        }
+      }
+
+      if (this.settings.showNotifications) {
+        new Notice(`Summarizing: ${file.basename}`);
+      }
+
+      const content = await readVaultFile(this.app, file);
+
+      // Host patterns don't apply to vault files: only the menu choice or the canvas's profile
+      const canvasMetadata = await readCanvasMetadata(this.app, canvasFile);
+      const profile = resolveProfile(this.settings.promptProfiles, '', options.profileId, canvasMetadata.profile);
+
+      const cardId = companionId;
+      const onText = this.settings.streamGeneration && cardId
+        ? throttleStream(text => this.canvasWriter.setLiveNodeText(canvasFile, cardId, `${text}\u2026`))
+        : undefined;
+
+      const generated = await this.generateDescription(
+        { text: content.text, fallback: null, image: content.image },
+        profile,
+        onText
+      );
+      // Files have no meta description to fall back on: never write the placeholder text as a summary,
+      // so the node is marked failed and can be found with "Select failed cards"
+      if (!generated.fromAI) {
+        throw new Error(content.image
+          ? 'AI provider did not return a summary. Check that the model supports images.'
+          : 'AI provider did not return a summary');
+      }
+      const summary = generated.text.substring(0, profile?.maxLength || this.settings.maxDescriptionLength);
+
+      if (toFrontmatter) {
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+          frontmatter[this.settings.fileSummaryProperty || 'summary'] = summary;
+        });
+      } else if (companionId) {
+        const cardValues = buildFileCardValues(file, content.details, summary, {
+          provider: generated.provider,
+          structured: generated.structured,
+        });
+        const cardText = renderCardTemplate(FILE_CARD_TEMPLATE, cardValues);
+        const updated = await this.updateCanvasNodeTextWithRetry(canvasFile, companionId, cardText);
+        if (!updated) {
+          throw new Error('Failed to update canvas node');
+        }
+        if (this.settings.autoResizeCards) {
+          await this.layoutCard(canvasFile, companionId, cardText);
+        }
+      }
+
+      await this.setNodeStatus(canvasFile, node.id, 'enriched');
+      await this.indexCard(canvasFile.path, companionId ?? node.id, content.title, [summary, content.text]);
+      if (this.settings.showNotifications) {
+        new Notice(`Summarized: ${file.basename}`);
+      }
+
+      return { success: true, provider: generated.provider };
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error('Enrichment failed:', errorMsg);
+      await this.setNodeStatus(canvasFile, node.id, 'failed', errorMsg);
+
+      if (this.settings.showNotifications) {
+        new Notice(`Enrichment failed: ${errorMsg}`);
+      }
+
+      return { success: false, error: errorMsg };
+
+    } finally {
+      this.processingNodes.delete(nodeKey);
+    }
+  }
+
+  // Replace a bare URL in a Markdown note with a rich link block, using the same scrape and AI pipeline as link cards
+  private async enrichNoteUrl(file: TFile, url: string, line: number): Promise<EnrichmentResult> {
+    const key = `${file.path}:${url}`;
+    if (this.processingNodes.has(key)) {
+      return { success: false, error: 'Already processing' };
+    }
+    this.processingNodes.add(key);
 
-      const canvas = (view as ItemView & { canvas: CanvasInternal }).canvas;
-      if (!canvas?.nodes) return false;
+    try {
+      if (this.settings.showNotifications) {
+        new Notice(`Enriching: ${url}`);
+      }
 
-      const canvasNode = canvas.nodes.get(nodeId);
-      if (!canvasNode) return false;
+      const profile = resolveProfile(this.settings.promptProfiles, url);
+      const { metadata, generated } = await this.describeUrl(url, profile, {});
+      const desc = generated.text.substring(0, profile?.maxLength || this.settings.maxDescriptionLength);
+      const values = buildCardValues(metadata, desc, { provider: generated.provider, structured: generated.structured });
+      await this.useLocalImages(values);
+      const block = buildLinkBlock(values, this.settings.noteLinkImage);
 
-      if (canvasNode.setText) {
-        canvasNode.setText(newText);
+      if (!await this.replaceBareUrl(file, url, line, block)) {
+        throw new Error('The URL is no longer on a line of its own');
       }
-      if (canvas.requestSave) {
-        canvas.requestSave();
+
+      if (this.settings.showNotifications) {
+        new Notice(`Enriched: ${values.title}`);
+      }
+      return { success: true, provider: generated.provider };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error('Enrichment failed:', errorMsg);
+      if (this.settings.showNotifications) {
+        new Notice(`Enrichment failed: ${errorMsg}`);
       }
+      return { success: false, error: errorMsg };
+    } finally {
+      this.processingNodes.delete(key);
+    }
+  }
+
+  // Enrich every bare URL in a note through the batch queue
+  private async enrichAllUrlsInNote(file: TFile, content: string) {
+    const seen = new Set<string>();
+    const targets = findBareUrls(content).filter(bare => !seen.has(bare.url) && seen.add(bare.url));
+    if (targets.length === 0) {
+      new Notice('No bare links found in note');
+      return;
+    }
+
+    new Notice(`Enriching ${targets.length} links...`);
+
+    const progress = await this.enrichmentQueue.add(targets.map(bare => ({
+      key: `${file.path}:${bare.url}`,
+      url: bare.url,
+      run: async () => (await this.enrichNoteUrl(file, bare.url, bare.line)).success,
+    })));
+
+    const cancelledNote = progress.cancelled > 0 ? `, ${progress.cancelled} cancelled` : '';
+    new Notice(`Finished enriching links: ${progress.completed} enriched, ${progress.failed} failed${cancelledNote}`);
+  }
+
+  // Swap the line holding a bare URL for a block, in the open editor if the note is open (keeping undo and cursor),
+  // otherwise in the file. The URL is looked up again near its original line, since the note may have changed meanwhile.
+  private async replaceBareUrl(file: TFile, url: string, nearLine: number, block: string): Promise<boolean> {
+    const view = this.app.workspace.getLeavesOfType('markdown')
+      .map(leaf => leaf.view)
+      .find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === file.path);
 
+    if (view) {
+      const { editor } = view;
+      const line = locateBareUrl(editor.getValue(), url, nearLine);
+      if (line === -1) return false;
+      editor.replaceRange(block, { line, ch: 0 }, { line, ch: editor.getLine(line).length });
       return true;
-    } catch {
-      return false;
+    }
+
+    let replaced = false;
+    await this.app.vault.process(file, (content) => {
+      const line = locateBareUrl(content, url, nearLine);
+      if (line === -1) return content;
+      const lines = content.split('\n');
+      lines[line] = block;
+      replaced = true;
+      return lines.join('\n');
+    });
+    return replaced;
+  }
+
+  // Point a card's preview image and favicon at copies in the attachments folder, when downloading is on.
+  // Images that can't be downloaded stay remote
+  private async useLocalImages(values: CardTemplateValues): Promise<void> {
+    const folder = this.settings.attachmentsFolder;
+    if (this.settings.downloadImages && values.ogImage) {
+      const path = await this.imageDownloader.download(values.ogImage, folder, 'image');
+      if (path) values.ogImage = toMarkdownLinkPath(path);
+    }
+    if (this.settings.downloadFavicons && values.favicon) {
+      const path = await this.imageDownloader.download(values.favicon, folder, 'favicon');
+      if (path) values.favicon = toMarkdownLinkPath(path);
+    }
+  }
+
+  // Move downloaded images that no canvas or note uses anymore to the trash
+  private async cleanUpDownloadedImages() {
+    const folder = this.app.vault.getAbstractFileByPath(normalizePath(this.settings.attachmentsFolder));
+    if (folder instanceof TFolder && folder.isRoot()) {
+      new Notice('The attachments folder is the vault root. Choose a dedicated folder before cleaning up images.');
+      return;
+    }
+    // A running enrichment writes its image before the card that references it
+    if (this.processingNodes.size > 0 || this.imageDownloader.isBusy()) {
+      new Notice('Wait for running enrichments to finish before cleaning up images');
+      return;
+    }
+
+    const canvasTexts = await Promise.all(
+      this.app.vault.getFiles()
+        .filter(file => file.extension === 'canvas')
+        .map(file => this.app.vault.cachedRead(file))
+    );
+    // Notes embed images as links, which the metadata cache has already resolved
+    const linked = new Set(Object.values(this.app.metadataCache.resolvedLinks).flatMap(links => Object.keys(links)));
+
+    const unused = this.imageDownloader.findUnreferenced(this.settings.attachmentsFolder, canvasTexts)
+      .filter(file => !linked.has(file.path));
+    for (const file of unused) {
+      await this.app.fileManager.trashFile(file);
+    }
+    new Notice(unused.length > 0 ? `Moved ${unused.length} unused images to the trash` : 'No unused images found');
+  }
+
+  // Scrape a URL and generate its description, reusing cached results when allowed, and cache new AI output
+  private async describeUrl(
+    url: string,
+    profile: PromptProfile | null,
+    options: EnrichOptions,
+    onPartial?: (text: string) => void
+  ): Promise<{ metadata: UrlMetadata; generated: GeneratedDescription }> {
+    // Step 1: Scrape the URL (or reuse a cached scrape)
+    const useCache = this.settings.cacheEnabled && !options.forceRefresh;
+    const stored = useCache
+      ? await this.enrichmentCache.get(url, this.settings.cacheTtlDays)
+      : null;
+    // A failed scrape (no title, no text) was a 404 or outage at the time: scrape again instead of reusing it
+    const cached = stored && !isEmptyScrape(stored.metadata) ? stored : null;
+
+    const metadata = cached?.metadata ?? await this.scraperService.scrape(url);
+    if (!metadata) {
+      throw new Error('Failed to fetch URL content');
+    }
+
+    // Step 2: Generate AI description (cached output is only reused for the same profile and mode)
+    const structuredMode = this.settings.structuredOutput;
+    const sameProfile = (cached?.profileId ?? '') === (profile?.id ?? '');
+    const cacheUsable = sameProfile && !!cached?.description && (!structuredMode || !!cached.structured);
+
+    let generated: GeneratedDescription;
+    if (cached && cacheUsable) {
+      generated = {
+        text: cached.description ?? '',
+        provider: cached.provider,
+        structured: structuredMode ? cached.structured : undefined,
+        fromAI: true,
+      };
+    } else {
+      const onText = this.settings.streamGeneration && onPartial ? throttleStream(onPartial) : undefined;
+
+      generated = await this.generateDescription(
+        { text: metadata.textContent, fallback: metadata.description },
+        profile,
+        onText
+      );
+
+      // Only cache real scrapes and real AI output so a transient failure gets retried next time
+      if (this.settings.cacheEnabled && !isEmptyScrape(metadata)) {
+        await this.enrichmentCache.set(url, metadata, {
+          description: generated.fromAI ? generated.text : null,
+          provider: generated.provider,
+          profileId: profile?.id,
+          structured: generated.structured,
+        }, this.settings.cacheTtlDays);
+      }
+    }
+
+    return { metadata, generated };
+  }
+
+  // Generate a description with the profile's prompt/provider; falls back to source.fallback on failure
+  private async generateDescription(
+    source: DescriptionSource,
+    profile: PromptProfile | null,
+    onText?: (text: string) => void
+  ): Promise<GeneratedDescription> {
+    const aiProvider = profile && (profile.provider || profile.model)
+      ? createProviderChain(applyProfileOverrides(this.settings, profile))
+      : this.aiProvider;
+    const prompt = profile?.prompt || this.settings.descriptionPrompt;
+
+    try {
+      // Images go to vision models as-is; structured output and streaming are text-only
+      if (source.image) {
+        const result = await aiProvider.describeImageWithSource(profile?.prompt || IMAGE_DESCRIPTION_PROMPT, source.image);
+        return { text: result.text, provider: result.provider, fromAI: true };
+      }
+
+      if (this.settings.structuredOutput) {
+        const result = await generateStructured(aiProvider, prompt, source.text);
+        return {
+          text: result.enrichment.summary,
+          provider: result.provider,
+          structured: result.enrichment,
+          fromAI: true,
+        };
+      }
+
+      const result = await aiProvider.generateWithSource(prompt, source.text, onText);
+      return { text: result.text, provider: result.provider, fromAI: true };
+    } catch (err) {
+      if (err instanceof ProviderHttpError && !err.retryable) {
+        // Bad key, unknown model, malformed request: retrying won't help, so tell the user
+        console.error('AI provider rejected the request, using fallback description:', err);
+        if (this.settings.showNotifications) {
+          new Notice(`AI provider rejected the request (status ${err.status}). Check your API key and model.`);
+        }
+      } else {
+        console.warn('AI generation failed after retries, using fallback description:', err);
+      }
+      return { text: source.fallback || 'No description available.', fromAI: false };
     }
   }
 
-  // Retry wrapper for updateCanvasNodeText (canvas internal state may lag behind file changes)
-  private async updateCanvasNodeTextWithRetry(nodeId: string, text: string, retries = 3): Promise<boolean> {
+  // Retry wrapper for setting a card's text (an open canvas's internal state may lag behind file changes)
+  private async updateCanvasNodeTextWithRetry(canvasFile: TFile, nodeId: string, text: string, retries = 3): Promise<boolean> {
     for (let i = 0; i < retries; i++) {
-      if (this.updateCanvasNodeText(nodeId, text)) {
-        return true;
+      try {
+        if (await this.canvasWriter.setNodeText(canvasFile, nodeId, text)) {
+          return true;
+        }
+      } catch (error) {
+        console.error('Failed to update canvas node:', error);
       }
       // Wait for canvas internal state to sync
       await new Promise(resolve => setTimeout(resolve, 300));
@@ -253,66 +933,676 @@ export default class DetailedCanvasPlugin extends Plugin {
     return false;
   }
 
-  // Enrich selected links in canvas view
-  private async enrichSelectedLinks(canvasView: ItemView) {
-    const selection = this.getSelectedLinkNodes(canvasView);
-    const canvasFile = this.getActiveCanvasFile();
+  // Set up the text node that will hold the card for this output mode, showing the placeholder in it:
+  // the node itself (link nodes become text nodes), or a companion card that is added or reused.
+  // The node's previous state is recorded so the enrichment can be reverted.
+  // Returns the card's node id, or null if the canvas could not be updated
+  private async prepareCardNode(
+    canvasFile: TFile,
+    sourceId: string,
+    placeholder: string,
+    mode: CardOutputMode,
+    retries = 3
+  ): Promise<string | null> {
+    for (let i = 0; i < retries; i++) {
+      try {
+        const source = (await this.canvasWriter.read(canvasFile)).nodes.find(node => node.id === sourceId);
 
-    if (!canvasFile || selection.length === 0) return;
+        if (source) {
+          const added: AddedCanvasItems = { nodeIds: [], edgeIds: [] };
+
+          if (mode === 'replace') {
+            await this.enrichmentHistory.record(canvasFile.path, source, added);
+            if (source.type === 'text') {
+              if (await this.canvasWriter.setNodeText(canvasFile, sourceId, placeholder)) return sourceId;
+            } else {
+              // setText does nothing on link nodes: swap in a text node that keeps the id and edges
+              await this.canvasWriter.update(canvasFile, data => replaceWithTextNode(data, sourceId, placeholder));
+              return sourceId;
+            }
+          } else {
+            // Re-enriching reuses the existing companion card
+            let cardId: string | null = null;
+            await this.canvasWriter.update(canvasFile, (data) => {
+              const current = data.nodes.find(node => node.id === sourceId);
+              if (!current) return data;
+
+              let next = data;
+              cardId = findCompanionId(data, sourceId);
+              if (!cardId) {
+                const companion = addCompanionCard(data, current, placeholder);
+                next = companion.data;
+                cardId = companion.nodeId;
+                added.nodeIds.push(companion.nodeId);
+                added.edgeIds.push(companion.edgeId);
+              }
+              if (mode === 'group' && !findEnclosingGroup(next, [sourceId, cardId])) {
+                const grouped = wrapInGroup(next, [sourceId, cardId]);
+                next = grouped.data;
+                if (grouped.nodeId) added.nodeIds.push(grouped.nodeId);
+              }
+              return next;
+            });
+
+            const placedId: string | null = cardId;
+            if (placedId) {
+              await this.enrichmentHistory.record(canvasFile.path, source, added);
+              // A newly added card already shows the placeholder
+              if (added.nodeIds.length > 0 || await this.canvasWriter.setNodeText(canvasFile, placedId, placeholder)) {
+                return placedId;
+              }
+            }
+          }
+        }
+      } catch (error) {
+        console.error('Failed to place card on canvas:', error);
+      }
+      // Wait for canvas internal state to sync
+      await new Promise(resolve => setTimeout(resolve, 300));
+    }
+    return null;
+  }
+
+  // Size a finished card to its content at the preferred width, grow its groups, and push overlapped neighbors down.
+  // Cards in canvases that are not open can't be measured, so their height is estimated from the text
+  private async layoutCard(canvasFile: TFile, cardId: string, cardText: string): Promise<void> {
+    try {
+      const width = this.settings.preferredCardWidth;
+      const live = this.canvasWriter.getLiveCanvas(canvasFile);
+      let measured: number | null = null;
+
+      // Group membership before anything moves, so groups grow with their cards
+      const members = groupMembers(await this.canvasWriter.read(canvasFile));
 
-    for (const node of selection) {
-      await this.enrichLinkNode(canvasFile, node);
+      if (live) {
+        // Render at the target width with a minimal height, so the content's scroll height is its natural height
+        live.setData(resizeNode(live.getData(), cardId, width, MIN_CARD_HEIGHT));
+        measured = await measureRenderedHeight(live.nodes.get(cardId)?.contentEl);
+      }
+      const height = Math.min(MAX_CARD_HEIGHT, Math.max(MIN_CARD_HEIGHT, measured ?? estimateCardHeight(cardText, width)));
+
+      await this.canvasWriter.update(canvasFile, (current) => {
+        let data = fitGroups(resizeNode(current, cardId, width, height), members);
+        data = pushOverlappingNodes(data, cardId, LAYOUT_GAP, members);
+        for (const [groupId, memberIds] of members) {
+          if (memberIds.includes(cardId)) {
+            data = pushOverlappingNodes(data, groupId, LAYOUT_GAP, members);
+          }
+        }
+        return data;
+      });
+    } catch (error) {
+      console.warn('Failed to resize card:', error);
     }
   }
 
-  // Enrich all link nodes in canvas
-  private async enrichAllLinksInCanvas(canvasFile: TFile) {
-    const view = this.getActiveCanvasView();
-    if (!view || !('canvas' in view)) {
-      new Notice('No active canvas view');
+  // Ask the AI for a research brief of the whole canvas, the selected cards or one group,
+  // and place it beside them as a text card, or as a note shown in a file card
+  private async writeCanvasOverview(canvasFile: TFile, nodeIds: string[] | null, title: string): Promise<void> {
+    const data = await this.canvasWriter.read(canvasFile);
+    const statuses = this.enrichmentStatus.list(canvasFile.path);
+    const enrichedIds = new Set([
+      ...Object.keys(statuses).filter(nodeId => statuses[nodeId].state === 'enriched'),
+      ...Object.keys(await this.enrichmentHistory.list(canvasFile.path)),
+    ]);
+    const sources = collectOverviewSources(data, nodeIds, enrichedIds);
+    if (sources.length === 0) {
+      new Notice('No enriched cards to summarize. Enrich the link cards first.');
+      return;
+    }
+
+    const anchorIds = nodeIds ?? data.nodes.map(node => node.id);
+    const size = { width: this.settings.preferredCardWidth, height: 200 };
+    const context = buildOverviewContext(sources, MAX_OVERVIEW_CONTEXT);
+    new Notice(`Writing overview of ${sources.length} cards...`);
+
+    let cardId: string | null = null;
+    try {
+      if (this.settings.overviewTarget === 'card') {
+        let placedId: string | null = null;
+        await this.canvasWriter.update(canvasFile, (current) => {
+          const placed = addNodeBeside(current, anchorIds, { type: 'text', text: `Writing overview...\n\n${title}` }, size);
+          placedId = placed.nodeId;
+          return placed.data;
+        });
+        cardId = placedId;
+      }
+
+      // Show partial output on the card while streaming, throttled to avoid re-rendering per token
+      const streamCardId = cardId;
+      const onText = this.settings.streamGeneration && streamCardId
+        ? throttleStream(text => this.canvasWriter.setLiveNodeText(canvasFile, streamCardId, `## ${title}\n\n${text}\u2026`))
+        : undefined;
+
+      const result = await this.aiProvider.generateWithSource(this.settings.overviewPrompt, context, onText);
+
+      if (cardId) {
+        const cardText = `## ${title}\n\n${result.text}`;
+        if (!await this.updateCanvasNodeTextWithRetry(canvasFile, cardId, cardText)) {
+          throw new Error('Failed to update canvas node');
+        }
+        if (this.settings.autoResizeCards) {
+          await this.layoutCard(canvasFile, cardId, cardText);
+        }
+        new Notice(`Overview added to canvas: ${title}`);
+      } else {
+        const notePath = await this.noteWriter.writeOverview(this.settings.notesFolder, title, result.text, canvasFile.path, result.provider);
+        await this.canvasWriter.update(canvasFile, current => addNodeBeside(current, anchorIds, { type: 'file', file: notePath }, size).data);
+        new Notice(`Overview written to ${notePath}`);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error('Canvas overview failed:', errorMsg);
+      new Notice(`Canvas overview failed: ${errorMsg}`);
+
+      // Don't leave the placeholder card behind
+      if (cardId) {
+        const removedId = cardId;
+        await this.canvasWriter.update(canvasFile, current => ({
+          ...current,
+          nodes: current.nodes.filter(node => node.id !== removedId),
+        }));
+      }
+    } finally {
+      // Writing the canvas re-renders its cards, which drops the status badges
+      this.refreshStatusBadges();
+    }
+  }
+
+  // Ask the AI for relationships and topic clusters between the selected cards (or all cards),
+  // preview them, and add the accepted edges and cluster groups to the canvas
+  private async suggestCardRelationships(canvasFile: TFile, nodeIds: string[] | null): Promise<void> {
+    let units = collectCardUnits(await this.canvasWriter.read(canvasFile), nodeIds);
+    if (units.length < 2) {
+      new Notice('Need at least two cards to suggest links');
+      return;
+    }
+    if (units.length > MAX_RELATIONSHIP_CARDS) {
+      new Notice(`Only the first ${MAX_RELATIONSHIP_CARDS} cards are analyzed. Select fewer cards to choose which.`);
+      units = units.slice(0, MAX_RELATIONSHIP_CARDS);
+    }
+
+    new Notice(`Finding links between ${units.length} cards...`);
+    let suggestions: RelationshipSuggestions;
+    try {
+      ({ suggestions } = await suggestRelationships(this.aiProvider, units));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error('Relationship suggestions failed:', errorMsg);
+      new Notice(`Could not suggest links: ${errorMsg}`);
+      return;
+    }
+
+    if (suggestions.edges.length === 0 && suggestions.clusters.length === 0) {
+      new Notice('No links or clusters found');
+      return;
+    }
+
+    const titles = new Map(units.map(unit => [unit.nodeId, unit.title]));
+    new RelationshipPreviewModal(this.app, suggestions, titles, (accepted) => {
+      let links = 0;
+      let groups = 0;
+      void this.canvasWriter.update(canvasFile, (data) => {
+        // Arrange first, so edge sides are picked from the cards' final positions
+        const arranged = arrangeClusters(data, accepted.clusters, units);
+        const linked = addSuggestedEdges(arranged.data, accepted.edges);
+        links = linked.added;
+        groups = arranged.added;
+        return links > 0 || groups > 0 ? linked.data : data;
+      }).then(() => {
+        this.refreshStatusBadges();
+        new Notice(`Added ${links} links and ${groups} groups`);
+      }).catch((error) => {
+        console.error('Failed to apply suggested links and clusters:', error);
+        new Notice(`Failed to apply suggestions: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }).open();
+  }
+
+  // Embed an enriched card's summary and source text for semantic search (no-op when search is off).
+  // Failures are logged only: search is a convenience and must never fail an enrichment
+  private async indexCard(canvasPath: string, nodeId: string, title: string, texts: Array<string | null | undefined>): Promise<void> {
+    const provider = createEmbeddingProvider(this.settings);
+    if (!provider?.embed) return;
+
+    try {
+      const body = texts.filter((text): text is string => !!text?.trim());
+      const [vector] = await provider.embed([[title, ...body].join('\n\n').substring(0, MAX_EMBEDDING_TEXT)]);
+      await this.embeddingIndex.set({
+        canvasPath,
+        nodeId,
+        title,
+        snippet: (body[0] ?? '').replace(/\s+/g, ' ').substring(0, 160),
+        model: this.settings.embeddingModel,
+        vector,
+        indexedAt: Date.now(),
+      });
+    } catch (error) {
+      console.warn('Failed to index card for search:', error);
+    }
+  }
+
+  // Embed a search query and rank indexed cards by similarity
+  private async searchEnrichedCards(query: string): Promise<SearchResult[]> {
+    const provider = createEmbeddingProvider(this.settings);
+    if (!provider?.embed) return [];
+
+    const [vector] = await provider.embed([query]);
+    return this.embeddingIndex.search(vector, this.settings.embeddingModel, SEARCH_RESULT_LIMIT);
+  }
+
+  // Re-embed every enriched card in every canvas from its current card text
+  private async rebuildSearchIndex(): Promise<void> {
+    const provider = createEmbeddingProvider(this.settings);
+    if (!provider?.embed) {
+      new Notice('Semantic search is off. Choose an embedding provider in settings.');
       return;
     }
 
-    type CanvasNodeInternal = {
-      getData?: () => { id: string; type: string; url?: string; text?: string; x: number; y: number; width: number; height: number };
-    };
-    type CanvasInternal = {
-      nodes: Map<string, CanvasNodeInternal>;
-    };
+    new Notice('Rebuilding search index...');
+    // The old index stays in place until every card is embedded, so a failure leaves search working
+    const entries: IndexedCard[] = [];
 
-    const canvas = (view as ItemView & { canvas: CanvasInternal }).canvas;
-    if (!canvas?.nodes) {
-      new Notice('No canvas nodes found');
+    try {
+      for (const file of this.app.vault.getFiles().filter(file => file.extension === 'canvas')) {
+        const canvasPath = file.path;
+        let data: CanvasData;
+        try {
+          data = JSON.parse(await this.app.vault.cachedRead(file)) as CanvasData;
+        } catch (error) {
+          console.warn(`Skipping unreadable canvas ${canvasPath}:`, error);
+          continue;
+        }
+        if (!Array.isArray(data.nodes)) continue;
+
+        // Enriched nodes: recorded statuses, plus the history and companion cards of enrichments made before statuses existed
+        const statuses = this.enrichmentStatus.list(canvasPath);
+        const sourceIds = new Set([
+          ...Object.keys(statuses).filter(nodeId => statuses[nodeId].state === 'enriched'),
+          ...Object.keys(await this.enrichmentHistory.list(canvasPath)),
+          ...data.nodes.filter(node => findCompanionId(data, node.id)).map(node => node.id),
+        ]);
+
+        // The card holding the summary: the companion card if there is one, else the node itself
+        const cards: Array<{ nodeId: string; title: string; text: string }> = [];
+        for (const sourceId of sourceIds) {
+          const cardId = findCompanionId(data, sourceId) ?? sourceId;
+          const node = data.nodes.find(n => n.id === cardId);
+          if (node?.type !== 'text' || !node.text.trim()) continue;
+          cards.push({ nodeId: cardId, title: cardTitle(node.text), text: node.text.substring(0, MAX_EMBEDDING_TEXT) });
+        }
+
+        for (let i = 0; i < cards.length; i += EMBEDDING_BATCH_SIZE) {
+          const batch = cards.slice(i, i + EMBEDDING_BATCH_SIZE);
+          const vectors = await provider.embed(batch.map(card => card.text));
+          for (const [index, card] of batch.entries()) {
+            entries.push({
+              canvasPath,
+              nodeId: card.nodeId,
+              title: card.title,
+              snippet: card.text.replace(/\s+/g, ' ').substring(0, 160),
+              model: this.settings.embeddingModel,
+              vector: vectors[index],
+              indexedAt: Date.now(),
+            });
+          }
+        }
+      }
+
+      await this.embeddingIndex.replaceAll(entries);
+      new Notice(`Search index rebuilt: ${entries.length} cards`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error('Rebuilding search index failed:', errorMsg);
+      new Notice(`Rebuilding search index failed, the previous index is kept: ${errorMsg}`);
+    }
+  }
+
+  // Open the canvas holding a search result and select and zoom to its card
+  private async openCanvasNode(result: SearchResult): Promise<void> {
+    const { canvasPath, nodeId } = result.card;
+    const file = this.app.vault.getAbstractFileByPath(canvasPath);
+    if (!(file instanceof TFile)) {
+      new Notice(`Canvas not found: ${canvasPath}`);
+      await this.embeddingIndex.remove(canvasPath, [nodeId]);
       return;
     }
 
-    const validLinks: CanvasLinkData[] = [];
-    for (const [, node] of canvas.nodes) {
-      const data = node.getData?.();
-      if (!data) continue;
+    const leaf: WorkspaceLeaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(file);
+    this.app.workspace.setActiveLeaf(leaf, { focus: true });
+
+    // The canvas loads its nodes shortly after the file opens
+    for (let i = 0; i < 10; i++) {
+      const canvas = (leaf.view as ItemView & { canvas?: LiveCanvas }).canvas;
+      const node = canvas?.nodes.get(nodeId);
+      if (canvas && node) {
+        canvas.deselectAll?.();
+        canvas.addToSelection?.(node);
+        canvas.zoomToSelection?.();
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    new Notice('This card is no longer in the canvas');
+    await this.embeddingIndex.remove(canvasPath, [nodeId]);
+  }
+
+  // Restore enriched nodes to their recorded state and remove the cards and groups added for them
+  // Returns the number of nodes reverted
+  private async revertEnrichments(canvasFile: TFile, sourceIds: string[]): Promise<number> {
+    const states: OriginalCardState[] = [];
+    const reverted: string[] = [];
+    const removedIds: string[] = [];
+    for (const sourceId of sourceIds) {
+      if (this.processingNodes.has(`${canvasFile.path}:${sourceId}`)) continue;
+      const state = await this.enrichmentHistory.get(canvasFile.path, sourceId);
+      if (!state) continue;
+
+      states.push(state);
+      reverted.push(sourceId);
+      removedIds.push(sourceId, ...state.addedNodeIds);
+    }
+
+    if (reverted.length > 0) {
+      await this.canvasWriter.update(canvasFile, data => states.reduce(
+        (current, state) => restoreNode(current, state.node, state.addedNodeIds, state.addedEdgeIds),
+        data
+      ));
+      await this.enrichmentHistory.remove(canvasFile.path, reverted);
+      await this.enrichmentStatus.remove(canvasFile.path, reverted);
+      await this.embeddingIndex.remove(canvasFile.path, removedIds);
+      this.refreshStatusBadges();
+    }
+    return reverted.length;
+  }
+
+  // Record a node's enrichment status and update its badge
+  private async setNodeStatus(canvasFile: TFile, nodeId: string, state: EnrichmentState, error?: string): Promise<void> {
+    await this.enrichmentStatus.set(canvasFile.path, nodeId, state, error);
+    this.refreshStatusBadges();
+  }
+
+  // Show status badges on the nodes of every open canvas (or clear them when badges are turned off)
+  private refreshStatusBadges() {
+    for (const { file, canvas } of this.canvasWriter.openCanvases()) {
+      if (!canvas.nodes) continue;
+
+      const nodeEls = new Map<string, HTMLElement>();
+      for (const [nodeId, node] of canvas.nodes) {
+        if (node.nodeEl) nodeEls.set(nodeId, node.nodeEl);
+      }
+      const statuses = this.settings.showStatusBadges ? this.enrichmentStatus.list(file.path) : {};
+      renderStatusBadges(nodeEls, statuses, this.settings.staleAfterDays);
+      renderHealthBadges(nodeEls, this.settings.showStatusBadges ? this.linkHealth.list(file.path) : {});
+    }
+  }
+
+  // Re-check the URL of every link card in the vault: link nodes, and enriched cards that were links.
+  // Marks broken cards and writes the list of broken links to a note (opened when run from the command)
+  private async checkLinkHealth(openReport: boolean) {
+    if (this.checkingLinks) return;
+    this.checkingLinks = true;
+
+    try {
+      const canvasFiles = this.app.vault.getFiles().filter(file => file.extension === 'canvas');
+      const cards: Array<{ canvasPath: string; nodeId: string; url: string }> = [];
+      for (const canvasFile of canvasFiles) {
+        let data: CanvasData;
+        try {
+          data = await this.canvasWriter.read(canvasFile);
+        } catch (error) {
+          console.warn(`Skipping unreadable canvas ${canvasFile.path}:`, error);
+          continue;
+        }
+
+        // Replaced link cards are text now; their URL is in the enrichment history
+        const history = await this.enrichmentHistory.list(canvasFile.path);
+        for (const node of data.nodes ?? []) {
+          const original = history[node.id]?.node;
+          const url = node.type === 'link' ? node.url : original?.type === 'link' ? original.url : null;
+          if (url && isValidUrl(url)) {
+            cards.push({ canvasPath: canvasFile.path, nodeId: node.id, url });
+          }
+        }
+      }
+
+      if (openReport) {
+        new Notice(`Checking ${cards.length} links...`);
+      }
+
+      const results = await checkLinks(cards.map(card => card.url), this.settings.batchConcurrency);
+      const canvases: Record<string, Record<string, LinkHealth>> = {};
+      const checked: Array<{ canvasPath: string; health: LinkHealth }> = [];
+      for (const card of cards) {
+        const health = results.get(card.url);
+        if (!health) continue;
+        (canvases[card.canvasPath] ??= {})[card.nodeId] = health;
+        checked.push({ canvasPath: card.canvasPath, health });
+      }
+      await this.linkHealth.replaceAll(canvases);
+      this.refreshStatusBadges();
 
-      if (data.type === 'link' && typeof data.url === 'string' && isValidUrl(data.url)) {
-        validLinks.push(data as unknown as CanvasLinkData);
-      } else if (data.type === 'text' && typeof data.text === 'string' && isValidUrl(data.text.trim())) {
-        validLinks.push({
-          id: data.id, type: 'link', url: data.text.trim(),
-          x: data.x, y: data.y, width: data.width, height: data.height,
-        } as CanvasLinkData);
+      const broken = checked.filter(result => result.health.state !== 'ok').length;
+      const reportPath = await this.noteWriter.writeReport(
+        this.settings.notesFolder,
+        'Broken links',
+        buildBrokenLinksReport(checked, canvasFiles.length)
+      );
+      const report = this.app.vault.getAbstractFileByPath(reportPath);
+      if (openReport && report instanceof TFile) {
+        await this.app.workspace.getLeaf(true).openFile(report);
+      }
+      if (openReport || broken > 0) {
+        new Notice(`Link check finished: ${broken} of ${checked.length} links are broken`);
       }
+    } catch (error) {
+      console.error('Link health check failed:', error);
+      new Notice(`Link health check failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.checkingLinks = false;
+    }
+  }
+
+  // Run the periodic link health check when the configured interval has passed since the last one
+  private async runScheduledLinkCheck() {
+    const intervalDays = this.settings.linkCheckIntervalDays;
+    if (intervalDays <= 0 || this.checkingLinks) return;
+
+    const lastCheck = await this.linkHealth.lastCheck();
+    if (Date.now() - lastCheck >= intervalDays * 24 * 60 * 60 * 1000) {
+      await this.checkLinkHealth(false);
+    }
+  }
+
+  // Select the active canvas's nodes whose enrichment failed or is stale, so they can be reviewed or re-run
+  private selectNodesByStatus(state: 'failed' | 'stale') {
+    const canvas = this.getLiveCanvas();
+    const canvasFile = this.getActiveCanvasFile();
+    if (!canvas?.nodes || !canvasFile) return;
+
+    const statuses = this.enrichmentStatus.list(canvasFile.path);
+    const matches = [...canvas.nodes].filter(([nodeId]) => {
+      const status = statuses[nodeId];
+      return status && displayedState(status, this.settings.staleAfterDays) === state;
+    });
+
+    if (matches.length === 0) {
+      new Notice(`No ${state} cards in this canvas`);
+      return;
+    }
+    if (!canvas.deselectAll || !canvas.addToSelection) {
+      new Notice('Selecting cards is not supported by this version of Obsidian');
+      return;
+    }
+
+    canvas.deselectAll();
+    for (const [, node] of matches) {
+      canvas.addToSelection(node);
+    }
+    canvas.zoomToSelection?.();
+    new Notice(`Selected ${matches.length} ${state} cards`);
+  }
+
+  // Helper: Get the active canvas's internal data API
+  private getLiveCanvas(): LiveCanvas | null {
+    const canvasFile = this.getActiveCanvasFile();
+    return canvasFile ? this.canvasWriter.getLiveCanvas(canvasFile) : null;
+  }
+
+  // Enrich selected link and file cards in canvas view
+  private async enrichSelectedNodes(canvasView: ItemView) {
+    const selection = this.getSelectedNodes(canvasView);
+    const canvasFile = this.getActiveCanvasFile();
+
+    if (!canvasFile || selection.length === 0) return;
+
+    await this.enqueueEnrichment(canvasFile, selection);
+  }
+
+  // Enrich all link and file nodes in canvas
+  private async enrichAllNodesInCanvas(canvasFile: TFile) {
+    const data = await this.canvasWriter.read(canvasFile);
+    const targets = data.nodes
+      .map(node => toEnrichableNode(node as unknown as Record<string, unknown>))
+      .filter((node): node is EnrichableNode => node !== null);
+
+    if (targets.length === 0) {
+      new Notice('No link or file cards found in canvas');
+      return;
     }
 
-    if (validLinks.length === 0) {
-      new Notice('No link cards found in canvas');
+    new Notice(`Enriching ${targets.length} cards...`);
+
+    const progress = await this.enqueueEnrichment(canvasFile, targets);
+
+    const cancelledNote = progress.cancelled > 0 ? `, ${progress.cancelled} cancelled` : '';
+    new Notice(`Finished enriching cards: ${progress.completed} enriched, ${progress.failed} failed${cancelledNote}`);
+  }
+
+  // Enrich the link cards and URL text cards that were never enriched, in every canvas under a folder,
+  // then write a report of what was enriched, what failed and what was skipped
+  private async enrichCanvasesInFolder(folder: TFolder) {
+    const scope = folder.isRoot() ? 'Entire vault' : folder.path;
+    const canvasFiles = this.app.vault.getFiles().filter(file =>
+      file.extension === 'canvas' && (folder.isRoot() || file.path.startsWith(`${folder.path}/`))
+    );
+    if (canvasFiles.length === 0) {
+      new Notice(`No canvases found in ${scope}`);
       return;
     }
 
-    new Notice(`Enriching ${validLinks.length} link cards...`);
+    const startedAt = Date.now();
+    const items: RunReportItem[] = [];
+    const batches: Array<{ canvasFile: TFile; nodes: EnrichableNode[] }> = [];
+
+    for (const canvasFile of canvasFiles) {
+      let data: CanvasData;
+      try {
+        data = await this.canvasWriter.read(canvasFile);
+      } catch (error) {
+        items.push({
+          canvasPath: canvasFile.path,
+          nodeId: '',
+          target: canvasFile.path,
+          outcome: 'skipped',
+          reason: `Could not read canvas: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        continue;
+      }
+
+      const statuses = this.enrichmentStatus.list(canvasFile.path);
+      const nodes: EnrichableNode[] = [];
+      for (const raw of data.nodes ?? []) {
+        const node = toEnrichableNode(raw as unknown as Record<string, unknown>);
+        if (!node || node.type !== 'link') continue;
+
+        const item = { canvasPath: canvasFile.path, nodeId: node.id, target: node.url };
+        if (statuses[node.id]?.state === 'enriched' || findCompanionId(data, node.id)) {
+          items.push({ ...item, outcome: 'skipped', reason: 'Already enriched' });
+        } else if (this.processingNodes.has(`${canvasFile.path}:${node.id}`)) {
+          items.push({ ...item, outcome: 'skipped', reason: 'Already being enriched' });
+        } else {
+          nodes.push(node);
+        }
+      }
+      if (nodes.length > 0) batches.push({ canvasFile, nodes });
+    }
+
+    const total = batches.reduce((sum, batch) => sum + batch.nodes.length, 0);
+    new Notice(`Enriching ${total} new cards in ${batches.length} of ${canvasFiles.length} canvases...`);
+
+    // Cards the queue never ran (cancelled, or already queued by another batch) keep no outcome
+    const outcomes = new Map<string, EnrichmentResult>();
+    await Promise.all(batches.map(({ canvasFile, nodes }) =>
+      this.enqueueEnrichment(canvasFile, nodes, (node, result) => outcomes.set(`${canvasFile.path}:${node.id}`, result))
+    ));
+
+    for (const { canvasFile, nodes } of batches) {
+      for (const node of nodes) {
+        const result = outcomes.get(`${canvasFile.path}:${node.id}`);
+        const item = { canvasPath: canvasFile.path, nodeId: node.id, target: node.type === 'file' ? node.file : node.url };
+        if (!result) {
+          items.push({ ...item, outcome: 'skipped', reason: 'Cancelled or already queued' });
+        } else if (result.success) {
+          items.push({ ...item, outcome: 'enriched' });
+        } else {
+          items.push({ ...item, outcome: 'failed', reason: result.error ?? 'Unknown error' });
+        }
+      }
+    }
+
+    try {
+      const title = `Enrichment report ${new Date(startedAt).toISOString().slice(0, 16).replace('T', ' ').replace(':', '-')}`;
+      const reportPath = await this.noteWriter.writeReport(
+        this.settings.notesFolder,
+        title,
+        buildRunReport(scope, items, canvasFiles.length, startedAt)
+      );
+      const report = this.app.vault.getAbstractFileByPath(reportPath);
+      if (report instanceof TFile) {
+        await this.app.workspace.getLeaf(true).openFile(report);
+      }
+    } catch (error) {
+      console.error('Failed to write enrichment report:', error);
+      new Notice(`Failed to write enrichment report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const enriched = items.filter(item => item.outcome === 'enriched').length;
+    const failed = items.filter(item => item.outcome === 'failed').length;
+    new Notice(`Finished enriching ${scope}: ${enriched} enriched, ${failed} failed`);
+  }
 
-    for (const node of validLinks) {
-      await this.enrichLinkNode(canvasFile, node);
+  // Queue link and file nodes for enrichment; resolves when the queue drains
+  private enqueueEnrichment(
+    canvasFile: TFile,
+    nodes: EnrichableNode[],
+    onResult?: (node: EnrichableNode, result: EnrichmentResult) => void
+  ): Promise<QueueProgress> {
+    return this.enrichmentQueue.add(nodes.map(node => ({
+      key: `${canvasFile.path}:${node.id}`,
+      // Vault files have no host to throttle; their path keeps them independent of each other
+      url: node.type === 'file' ? node.file : node.url,
+      run: async () => {
+        const result = await this.enrichNode(canvasFile, node);
+        onResult?.(node, result);
+        return result.success;
+      },
+    })));
+  }
+
+  // Show batch progress in the status bar, hidden while the queue is idle
+  private renderQueueProgress(progress: QueueProgress | null) {
+    const idle = !progress || !progress.running;
+    this.statusBarEl.toggleClass('detailed-canvas-status-idle', idle);
+    if (idle) {
+      this.statusBarEl.setText('');
+      return;
     }
 
-    new Notice('Finished enriching all link cards');
+    const failedNote = progress.failed > 0 ? `, ${progress.failed} failed` : '';
+    this.statusBarEl.setText(`${progress.completed}/${progress.total} enriched${failedNote}`);
   }
 
   // Helper: Get active canvas view
@@ -334,27 +1624,31 @@ export default class DetailedCanvasPlugin extends Plugin {
     return null;
   }
 
-  // Helper: Get selected link nodes from canvas view
-  private getSelectedLinkNodes(canvasView: ItemView): CanvasLinkData[] {
+  // Helper: Get the ids of all selected nodes in canvas view
+  private getSelectedNodeIds(canvasView: ItemView): string[] {
+    if (!('canvas' in canvasView)) return [];
+    const { canvas } = canvasView as ItemView & { canvas: { selection?: Set<CanvasNodeInstance> } | undefined };
+    if (!canvas?.selection) return [];
+
+    const ids: string[] = [];
+    for (const node of canvas.selection) {
+      const id = node.getData?.()?.id;
+      if (typeof id === 'string') ids.push(id);
+    }
+    return ids;
+  }
+
+  // Helper: Get selected link and file nodes from canvas view
+  private getSelectedNodes(canvasView: ItemView): EnrichableNode[] {
     try {
       if (!('canvas' in canvasView)) return [];
       const { canvas } = canvasView as ItemView & { canvas: { selection?: Set<CanvasNodeInstance> } | undefined };
       if (!canvas?.selection) return [];
 
-      const selected: CanvasLinkData[] = [];
+      const selected: EnrichableNode[] = [];
       for (const node of canvas.selection) {
-        const data = node.getData?.();
-        if (!data) continue;
-
-        if (data.type === 'link' && typeof data.url === 'string' && isValidUrl(data.url)) {
-          selected.push(data as unknown as CanvasLinkData);
-        } else if (data.type === 'text' && 'text' in data && typeof (data as unknown as { text: string }).text === 'string' && isValidUrl((data as unknown as { text: string }).text.trim())) {
-          const textData = data as unknown as { id: string; text: string; x: number; y: number; width: number; height: number };
-          selected.push({
-            id: textData.id, type: 'link', url: textData.text.trim(),
-            x: textData.x, y: textData.y, width: textData.width, height: textData.height,
-          } as CanvasLinkData);
-        }
+        const target = toEnrichableNode(node.getData?.());
+        if (target) selected.push(target);
       }
       return selected;
     } catch {
@@ -362,3 +1656,8 @@ export default class DetailedCanvasPlugin extends Plugin {
     }
   }
 }
+
+// The scraper returns empty metadata instead of failing when a page can't be fetched
+function isEmptyScrape(metadata: UrlMetadata): boolean {
+  return !metadata.title && !metadata.textContent;
+}
@@ -0,0 +1,70 @@
+import { CardTemplateValues } from '../canvas/card-template';
+import { isValidUrl } from '../canvas/utils';
+
+/**
+ * A URL standing alone on its own line of a note
+ */
+export interface BareUrl {
+  url: string;
+  line: number;
+}
+
+/**
+ * Find URLs that are alone on their line, outside frontmatter and code blocks.
+ * URLs inside sentences, Markdown links or lists are left alone, since a block can't replace them.
+ */
+export function findBareUrls(content: string): BareUrl[] {
+  const lines = content.split('\n');
+  const found: BareUrl[] = [];
+  let inFence = false;
+  let inFrontmatter = lines[0]?.trim() === '---';
+
+  lines.forEach((raw, line) => {
+    const text = raw.trim();
+    if (inFrontmatter) {
+      if (line > 0 && text === '---') inFrontmatter = false;
+      return;
+    }
+    if (/^(```|~~~)/.test(text)) {
+      inFence = !inFence;
+      return;
+    }
+    if (!inFence && !/\s/.test(text) && isValidUrl(text)) {
+      found.push({ url: text, line });
+    }
+  });
+  return found;
+}
+
+/**
+ * Line of the bare URL closest to where it was first seen; the note may have been edited since
+ * @returns The line number, or -1 if the URL is no longer alone on a line
+ */
+export function locateBareUrl(content: string, url: string, nearLine: number): number {
+  let best = -1;
+  for (const bare of findBareUrls(content)) {
+    if (bare.url !== url) continue;
+    if (best === -1 || Math.abs(bare.line - nearLine) < Math.abs(best - nearLine)) {
+      best = bare.line;
+    }
+  }
+  return best;
+}
+
+/**
+ * Rich link block that replaces a bare URL: a callout titled with the link, then the description,
+ * the site name and optionally the preview image
+ */
+export function buildLinkBlock(values: CardTemplateValues, includeImage: boolean): string {
+  const title = values.title.replace(/[[\]]/g, '');
+  const lines = [
+    `> [!info] [${title}](${values.url})`,
+    ...values.summary.trim().split('\n').map(line => `> ${line}`.trimEnd()),
+    '>',
+    `> *${values.siteName}*`,
+  ];
+  if (includeImage && values.ogImage) {
+    lines.push(`> ![${title}](${values.ogImage})`);
+  }
+  return lines.join('\n');
+}
@@ -1,11 +1,14 @@
 import { requestUrl } from 'obsidian';
-import { AIProvider, ClaudeMessageRequest, ClaudeMessageResponse } from '../types.js';
+import { AIProvider, ImageInput, JsonSchema, ClaudeMessageRequest, ClaudeMessageResponse, ClaudeStreamEvent } from '../types.js';
 import { CLAUDE_BASE_URL, CLAUDE_MODELS } from '../constants.js';
+import { requestWithRetry, RetryOptions } from './retry.js';
+import { streamLines, parseSseData } from './streaming.js';
 
 export class ClaudeProvider implements AIProvider {
   constructor(
     private apiKey: string,
-    private model: string
+    private model: string,
+    private retry: RetryOptions = { maxAttempts: 1 }
   ) {}
 
   async generate(prompt: string, context: string): Promise<string> {
@@ -21,7 +24,7 @@ export class ClaudeProvider implements AIProvider {
       ],
     };
 
-    const response = await requestUrl({
+    const response = await requestWithRetry({
       url: `${CLAUDE_BASE_URL}/messages`,
       method: 'POST',
       headers: {
@@ -30,12 +33,7 @@ export class ClaudeProvider implements AIProvider {
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify(request),
-      throw: false,
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Claude API request failed with status ${response.status}: ${response.text}`);
-    }
+    }, this.retry, 'Claude API');
 
     const data = response.json as ClaudeMessageResponse;
 
@@ -44,13 +42,138 @@ export class ClaudeProvider implements AIProvider {
     }
 
     const textBlock = data.content.find(block => block.type === 'text');
-    if (!textBlock) {
+    if (!textBlock?.text) {
       throw new Error('Invalid response from Claude API: no text content');
     }
 
     return textBlock.text.trim();
   }
 
+  async generateJson(prompt: string, context: string, schema: JsonSchema, maxTokens = 800): Promise<string> {
+    const fullPrompt = context
+      ? `Context:\n${context}\n\n${prompt}`
+      : prompt;
+
+    // Forcing a single tool call makes Claude return arguments that follow the schema
+    const request: ClaudeMessageRequest = {
+      model: this.model,
+      max_tokens: maxTokens,
+      messages: [
+        { role: 'user', content: fullPrompt }
+      ],
+      tools: [{
+        name: 'record_enrichment',
+        description: 'Record the structured description of the web page',
+        input_schema: schema,
+      }],
+      tool_choice: { type: 'tool', name: 'record_enrichment' },
+    };
+
+    const response = await requestWithRetry({
+      url: `${CLAUDE_BASE_URL}/messages`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify(request),
+    }, this.retry, 'Claude API');
+
+    const data = response.json as ClaudeMessageResponse;
+
+    const toolBlock = data.content?.find(block => block.type === 'tool_use');
+    if (!toolBlock?.input) {
+      throw new Error('Invalid response from Claude API: no tool output');
+    }
+
+    return JSON.stringify(toolBlock.input);
+  }
+
+  async describeImage(prompt: string, image: ImageInput): Promise<string> {
+    const request: ClaudeMessageRequest = {
+      model: this.model,
+      max_tokens: 500,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } },
+            { type: 'text', text: prompt },
+          ],
+        }
+      ],
+    };
+
+    const response = await requestWithRetry({
+      url: `${CLAUDE_BASE_URL}/messages`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify(request),
+    }, this.retry, 'Claude API');
+
+    const data = response.json as ClaudeMessageResponse;
+
+    const textBlock = data.content?.find(block => block.type === 'text');
+    if (!textBlock?.text) {
+      throw new Error('Invalid response from Claude API: no text content');
+    }
+
+    return textBlock.text.trim();
+  }
+
+  async generateStream(prompt: string, context: string, onText: (text: string) => void): Promise<string> {
+    const fullPrompt = context
+      ? `Context:\n${context}\n\n${prompt}`
+      : prompt;
+
+    const request: ClaudeMessageRequest = {
+      model: this.model,
+      max_tokens: 500,
+      stream: true,
+      messages: [
+        { role: 'user', content: fullPrompt }
+      ],
+    };
+
+    let text = '';
+    await streamLines(
+      `${CLAUDE_BASE_URL}/messages`,
+      {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        // fetch is subject to CORS, unlike requestUrl
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      request,
+      'Claude API',
+      this.retry,
+      (line) => {
+        const data = parseSseData(line);
+        if (!data) return;
+
+        const event = JSON.parse(data) as ClaudeStreamEvent;
+        if (event.type === 'error' && event.error) {
+          throw new Error(`Claude API error: ${event.error.message}`);
+        }
+        if (event.type === 'content_block_delta' && event.delta?.text) {
+          text += event.delta.text;
+          onText(text);
+        }
+      }
+    );
+
+    if (!text) {
+      throw new Error('Invalid response from Claude API: empty stream');
+    }
+    return text.trim();
+  }
+
   async checkConnection(): Promise<boolean> {
     try {
       // Send a minimal request to verify the API key works
@@ -0,0 +1,200 @@
+/**
+ * Readability-style main content extraction.
+ * Scores block containers by text density, penalizes link-heavy blocks and boilerplate
+ * class names, prefers <article>/<main>, and keeps headings and paragraph breaks.
+ */
+
+// Elements that never carry article text
+const NOISE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+  'input', 'select', 'textarea', 'nav', 'footer', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="dialog"]', '[aria-hidden="true"]', '[hidden]',
+];
+
+const NEGATIVE_RE = /cookie|consent|gdpr|banner|comment|disqus|related|recommend|share|social|sidebar|newsletter|subscribe|promo|sponsor|advert|\bads?\b|popup|modal|breadcrumb|footer|masthead|menu|widget|outbrain|taboola|paywall/i;
+const POSITIVE_RE = /article|content|entry|main|post|story|body|text|blog/i;
+// Comment threads, removed even when their class also looks like content (comment-body, comment-text)
+const COMMENTS_RE = /(^|\s)(comments?([-_][\w-]*)?|[\w-]+[-_]comments?|disqus[\w-]*)(?=\s|$)/i;
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'HEADER', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'PRE',
+  'TABLE', 'TR', 'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+]);
+const HEADING_LEVELS: Record<string, number> = { H1: 1, H2: 2, H3: 3, H4: 4, H5: 5, H6: 6 };
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_CONTENT_LENGTH = 200;
+
+/**
+ * Extract the main readable text of a page as lightly formatted Markdown
+ * @param doc - Parsed HTML document
+ * @param maxLength - Maximum number of characters to return
+ * @returns Headings and paragraphs separated by blank lines
+ */
+export function extractMainContent(doc: Document, maxLength: number): string {
+  const body = doc.querySelector('body');
+  if (!body) return '';
+
+  const root = body.cloneNode(true) as HTMLElement;
+  removeNoise(root);
+
+  const candidate = findBestCandidate(root);
+  let text = candidate ? toText(candidate) : '';
+
+  // Short or missing candidates usually mean an unusual layout: use everything that survived cleaning
+  if (text.length < MIN_CONTENT_LENGTH) {
+    const fallback = toText(root);
+    if (fallback.length > text.length) text = fallback;
+  }
+
+  return truncateAtParagraph(text, maxLength);
+}
+
+function removeNoise(root: HTMLElement): void {
+  root.querySelectorAll(NOISE_SELECTORS.join(',')).forEach(el => el.remove());
+
+  // Boilerplate containers identified by class/id, unless they also look like content
+  root.querySelectorAll<HTMLElement>('[class], [id]').forEach(el => {
+    const signature = `${el.className} ${el.id}`;
+    if (COMMENTS_RE.test(signature)) {
+      el.remove();
+      return;
+    }
+    if (el.tagName === 'ARTICLE' || el.tagName === 'MAIN') return;
+    if (NEGATIVE_RE.test(signature) && !POSITIVE_RE.test(signature)) {
+      el.remove();
+    }
+  });
+}
+
+function findBestCandidate(root: HTMLElement): HTMLElement | null {
+  const scores = new Map<HTMLElement, number>();
+
+  const addScore = (el: HTMLElement | null, amount: number) => {
+    if (!el || el === root.parentElement) return;
+    if (!scores.has(el)) scores.set(el, initialScore(el));
+    scores.set(el, (scores.get(el) ?? 0) + amount);
+  };
+
+  root.querySelectorAll<HTMLElement>('p, pre, blockquote, td, li, h2, h3').forEach(block => {
+    const text = normalizeInline(block.textContent ?? '');
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // More text and more commas suggest prose rather than navigation
+    const score = 1 + (text.split(',').length - 1) + Math.min(Math.floor(text.length / 100), 3);
+    addScore(block.parentElement, score);
+    addScore(block.parentElement?.parentElement ?? null, score / 2);
+  });
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  // Prefer the enclosing <article>/<main> when the winner sits inside one
+  const semantic = best?.closest<HTMLElement>('article, main, [role="main"]');
+  if (semantic && root.contains(semantic)) {
+    return semantic;
+  }
+  return best;
+}
+
+function initialScore(el: HTMLElement): number {
+  let score = 0;
+  switch (el.tagName) {
+    case 'ARTICLE': case 'MAIN': score += 30; break;
+    case 'DIV': case 'SECTION': score += 5; break;
+    case 'PRE': case 'TD': case 'BLOCKQUOTE': score += 3; break;
+    case 'UL': case 'OL': case 'FORM': score -= 3; break;
+  }
+  if (el.getAttribute('role') === 'main') score += 30;
+
+  const signature = `${el.className} ${el.id}`;
+  if (POSITIVE_RE.test(signature)) score += 25;
+  if (NEGATIVE_RE.test(signature)) score -= 25;
+  return score;
+}
+
+// Share of an element's text that sits inside links
+function linkDensity(el: HTMLElement): number {
+  const textLength = normalizeInline(el.textContent ?? '').length;
+  if (textLength === 0) return 1;
+
+  let linkLength = 0;
+  el.querySelectorAll('a').forEach(a => {
+    linkLength += normalizeInline(a.textContent ?? '').length;
+  });
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Flatten an element into text blocks, marking headings and list items
+ */
+function toText(el: HTMLElement): string {
+  const blocks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    const text = normalizeInline(current);
+    if (text) blocks.push(text);
+    current = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    if (element.tagName === 'BR') {
+      current += '\n';
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(element.tagName);
+    if (!isBlock) {
+      element.childNodes.forEach(walk);
+      return;
+    }
+
+    flush();
+    const level = HEADING_LEVELS[element.tagName];
+    if (level) {
+      const heading = normalizeInline(element.textContent ?? '');
+      if (heading) blocks.push(`${'#'.repeat(level)} ${heading}`);
+      return;
+    }
+    if (element.tagName === 'LI') current += '- ';
+    element.childNodes.forEach(walk);
+    flush();
+  };
+
+  walk(el);
+  flush();
+
+  return blocks.filter(block => block !== '-').join('\n\n');
+}
+
+function normalizeInline(text: string): string {
+  return text.replace(/[ \t\r\f\v ]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+}
+
+/**
+ * Cut text to maxLength, preferring a paragraph break near the end
+ */
+export function truncateAtParagraph(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const cut = text.lastIndexOf('\n\n', maxLength);
+  // Only cut at a paragraph break if that keeps most of the budget
+  const end = cut > maxLength * 0.8 ? cut : maxLength;
+  return text.substring(0, end).trimEnd() + '...';
+}
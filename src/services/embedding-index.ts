@@ -0,0 +1,117 @@
+import { App } from 'obsidian';
+import { JsonStore } from './json-store';
+
+/**
+ * An enriched card's embedding, with what the search modal shows for it
+ */
+export interface IndexedCard {
+  canvasPath: string;
+  nodeId: string;
+  title: string;
+  snippet: string;
+  model: string; // vectors from different models are not comparable
+  vector: number[];
+  indexedAt: number;
+}
+
+/**
+ * A card matching a search, with its cosine similarity to the query
+ */
+export interface SearchResult {
+  card: IndexedCard;
+  score: number;
+}
+
+interface IndexFile {
+  version: 1;
+  canvases: Record<string, Record<string, IndexedCard>>;
+}
+
+// Five decimals keep the ranking intact and roughly halve the file size
+const VECTOR_PRECISION = 1e5;
+
+/**
+ * On-disk index of card embeddings, keyed by canvas path and node id, searched by cosine similarity
+ */
+export class EmbeddingIndex {
+  private store: JsonStore<IndexFile>;
+
+  constructor(app: App, filePath: string) {
+    this.store = new JsonStore<IndexFile>(app, filePath, 'embedding index', () => ({ version: 1, canvases: {} }));
+  }
+
+  /**
+   * Add or replace one card's embedding
+   */
+  async set(card: IndexedCard): Promise<void> {
+    const { canvases } = await this.store.load();
+    const cards = canvases[card.canvasPath] ?? (canvases[card.canvasPath] = {});
+    cards[card.nodeId] = compact(card);
+    await this.store.save();
+  }
+
+  /**
+   * Find the cards most similar to a query vector, across all canvases
+   * @param model - Model that embedded the query; cards embedded with another model are skipped
+   * @param limit - Maximum number of results
+   */
+  async search(vector: number[], model: string, limit: number): Promise<SearchResult[]> {
+    const { canvases } = await this.store.load();
+    const results: SearchResult[] = [];
+
+    for (const cards of Object.values(canvases)) {
+      for (const card of Object.values(cards)) {
+        if (card.model !== model || card.vector.length !== vector.length) continue;
+        results.push({ card, score: cosineSimilarity(vector, card.vector) });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Drop cards from the index, e.g. after their enrichment was reverted or the node was deleted
+   */
+  async remove(canvasPath: string, nodeIds: string[]): Promise<void> {
+    const { canvases } = await this.store.load();
+    const cards = canvases[canvasPath];
+    if (!cards) return;
+
+    for (const nodeId of nodeIds) {
+      delete cards[nodeId];
+    }
+    if (Object.keys(cards).length === 0) {
+      delete canvases[canvasPath];
+    }
+    await this.store.save();
+  }
+
+  /**
+   * Replace the whole index with the given cards, e.g. after re-embedding every card
+   */
+  async replaceAll(cards: IndexedCard[]): Promise<void> {
+    const file = await this.store.load();
+    const canvases: Record<string, Record<string, IndexedCard>> = {};
+    for (const card of cards) {
+      (canvases[card.canvasPath] ??= {})[card.nodeId] = compact(card);
+    }
+    file.canvases = canvases;
+    await this.store.save();
+  }
+}
+
+function compact(card: IndexedCard): IndexedCard {
+  return { ...card, vector: card.vector.map(v => Math.round(v * VECTOR_PRECISION) / VECTOR_PRECISION) };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
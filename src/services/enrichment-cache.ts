@@ -0,0 +1,129 @@
+import { App } from 'obsidian';
+import { CACHE_MAX_ENTRIES } from '../constants';
+import { AIProviderType, StructuredEnrichment, UrlMetadata } from '../types';
+import { JsonStore } from './json-store';
+
+/**
+ * A cached enrichment for a single URL
+ */
+export interface CacheEntry {
+  metadata: UrlMetadata;
+  description: string | null;
+  provider?: AIProviderType;
+  profileId?: string;
+  structured?: StructuredEnrichment;
+  cachedAt: number;
+}
+
+/**
+ * Generated output stored alongside the scraped metadata
+ */
+export type CacheGeneration = Omit<CacheEntry, 'metadata' | 'cachedAt'>;
+
+interface CacheFile {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tracking parameters that never change page content
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref_src)$/i;
+
+/**
+ * On-disk cache of scraped metadata and generated descriptions, keyed by normalized URL
+ */
+export class EnrichmentCache {
+  private store: JsonStore<CacheFile>;
+
+  constructor(app: App, filePath: string) {
+    this.store = new JsonStore<CacheFile>(app, filePath, 'enrichment cache', () => ({ version: 1, entries: {} }));
+  }
+
+  /**
+   * Normalize a URL so trivially different links share one cache entry
+   */
+  static normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      parsed.hostname = parsed.hostname.toLowerCase();
+
+      const params = [...parsed.searchParams.entries()]
+        .filter(([key]) => !TRACKING_PARAMS.test(key))
+        .sort(([a], [b]) => a.localeCompare(b));
+      parsed.search = new URLSearchParams(params).toString();
+
+      let normalized = parsed.toString();
+      if (parsed.pathname !== '/' && normalized.endsWith('/')) {
+        normalized = normalized.slice(0, -1);
+      }
+      return normalized;
+    } catch {
+      return url.trim();
+    }
+  }
+
+  /**
+   * Look up a URL, ignoring entries older than the TTL
+   * @param url - URL to look up
+   * @param ttlDays - Maximum entry age in days (0 = never expire)
+   */
+  async get(url: string, ttlDays: number): Promise<CacheEntry | null> {
+    const entries = await this.load(ttlDays);
+    return entries[EnrichmentCache.normalizeUrl(url)] ?? null;
+  }
+
+  /**
+   * Store the enrichment for a URL and persist the cache, dropping expired and surplus entries
+   * @param ttlDays - Maximum entry age in days (0 = never expire)
+   */
+  async set(url: string, metadata: UrlMetadata, generation: CacheGeneration, ttlDays: number): Promise<void> {
+    const entries = await this.load(ttlDays);
+    entries[EnrichmentCache.normalizeUrl(url)] = {
+      metadata,
+      ...generation,
+      cachedAt: Date.now(),
+    };
+    this.prune(entries, ttlDays);
+    await this.store.save();
+  }
+
+  /**
+   * Remove every cached entry
+   * @returns Number of entries removed
+   */
+  async clear(): Promise<number> {
+    const file = await this.store.load();
+    const count = Object.keys(file.entries).length;
+    file.entries = {};
+    await this.store.save();
+    return count;
+  }
+
+  // Read the cache without its expired entries; they are removed from the file on the next write
+  private async load(ttlDays: number): Promise<Record<string, CacheEntry>> {
+    const { entries } = await this.store.load();
+    this.prune(entries, ttlDays);
+    return entries;
+  }
+
+  // Drop entries older than the TTL, then the oldest ones beyond CACHE_MAX_ENTRIES
+  private prune(entries: Record<string, CacheEntry>, ttlDays: number): void {
+    const now = Date.now();
+    for (const [key, entry] of Object.entries(entries)) {
+      if (ttlDays > 0 && now - entry.cachedAt > ttlDays * DAY_MS) {
+        delete entries[key];
+      }
+    }
+
+    const surplus = Object.keys(entries).length - CACHE_MAX_ENTRIES;
+    if (surplus <= 0) return;
+    const oldest = Object.entries(entries)
+      .sort(([, a], [, b]) => a.cachedAt - b.cachedAt)
+      .slice(0, surplus);
+    for (const [key] of oldest) {
+      delete entries[key];
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { App } from 'obsidian';
+import { CanvasNode } from '../types';
+import { JsonStore } from './json-store';
+
+/**
+ * What a canvas looked like around one node before the plugin first enriched it
+ */
+export interface OriginalCardState {
+  node: CanvasNode; // the node's data (text or URL, size, color) before enrichment
+  addedNodeIds: string[]; // companion cards and groups created by enrichment
+  addedEdgeIds: string[];
+  enrichedAt: number;
+}
+
+/**
+ * Nodes and edges added to the canvas by one enrichment
+ */
+export interface AddedCanvasItems {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+interface HistoryFile {
+  version: 1;
+  canvases: Record<string, Record<string, OriginalCardState>>;
+}
+
+/**
+ * On-disk record of pre-enrichment node states, keyed by canvas path and node id, used to revert enrichments
+ */
+export class EnrichmentHistory {
+  private store: JsonStore<HistoryFile>;
+
+  constructor(app: App, filePath: string) {
+    this.store = new JsonStore<HistoryFile>(app, filePath, 'enrichment history', () => ({ version: 1, canvases: {} }));
+  }
+
+  /**
+   * Remember a node's state before enrichment. Re-enriching keeps the first recorded
+   * state, so a revert always returns to the card as the user made it.
+   * @param canvasPath - Path of the canvas file
+   * @param node - Node data before this enrichment changed it
+   * @param added - Nodes and edges this enrichment added
+   */
+  async record(canvasPath: string, node: CanvasNode, added: AddedCanvasItems): Promise<void> {
+    const { canvases } = await this.store.load();
+    const states = canvases[canvasPath] ?? (canvases[canvasPath] = {});
+    const existing = states[node.id];
+
+    states[node.id] = existing
+      ? {
+        ...existing,
+        addedNodeIds: [...new Set([...existing.addedNodeIds, ...added.nodeIds])],
+        addedEdgeIds: [...new Set([...existing.addedEdgeIds, ...added.edgeIds])],
+      }
+      : {
+        node,
+        addedNodeIds: added.nodeIds,
+        addedEdgeIds: added.edgeIds,
+        enrichedAt: Date.now(),
+      };
+    await this.store.save();
+  }
+
+  /**
+   * Read the history file so find() can answer synchronously (e.g. while building a context menu)
+   */
+  async preload(): Promise<void> {
+    await this.store.load();
+  }
+
+  /**
+   * Find the record for a node, which may be the enriched node itself or a card or group added for it
+   * @returns The enriched node's id and its record, or null (also before preload() has finished)
+   */
+  find(canvasPath: string, nodeId: string): { sourceId: string; state: OriginalCardState } | null {
+    const states = this.store.current?.canvases[canvasPath];
+    if (!states) return null;
+
+    for (const [sourceId, state] of Object.entries(states)) {
+      if (sourceId === nodeId || state.addedNodeIds.includes(nodeId)) {
+        return { sourceId, state };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Look up the recorded state of one node
+   */
+  async get(canvasPath: string, nodeId: string): Promise<OriginalCardState | null> {
+    const { canvases } = await this.store.load();
+    return canvases[canvasPath]?.[nodeId] ?? null;
+  }
+
+  /**
+   * All recorded states for a canvas, keyed by node id
+   */
+  async list(canvasPath: string): Promise<Record<string, OriginalCardState>> {
+    const { canvases } = await this.store.load();
+    return { ...canvases[canvasPath] };
+  }
+
+  /**
+   * Forget recorded states after they have been restored
+   */
+  async remove(canvasPath: string, nodeIds: string[]): Promise<void> {
+    const { canvases } = await this.store.load();
+    const states = canvases[canvasPath];
+    if (!states) return;
+
+    for (const nodeId of nodeIds) {
+      delete states[nodeId];
+    }
+    if (Object.keys(states).length === 0) {
+      delete canvases[canvasPath];
+    }
+    await this.store.save();
+  }
+}
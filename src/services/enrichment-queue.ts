@@ -0,0 +1,178 @@
+/**
+ * A unit of work for the enrichment queue
+ */
+export interface QueueJob {
+  key: string;
+  url: string;
+  run: () => Promise<boolean>;
+}
+
+/**
+ * Snapshot of the queue's progress for the current batch
+ */
+export interface QueueProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  running: boolean;
+}
+
+/**
+ * Job queue with a global concurrency limit and a per-host delay between requests
+ */
+export class EnrichmentQueue {
+  private pending: QueueJob[] = [];
+  private queuedKeys: Set<string> = new Set();
+  private activeHosts: Set<string> = new Set();
+  private lastHostStart: Map<string, number> = new Map();
+  private activeCount = 0;
+  private wakeTimer: number | null = null;
+  private idleWaiters: Array<(progress: QueueProgress) => void> = [];
+  private progress: QueueProgress = EnrichmentQueue.emptyProgress();
+
+  constructor(
+    private getLimits: () => { concurrency: number; hostDelayMs: number },
+    private onProgress: (progress: QueueProgress) => void
+  ) {}
+
+  /**
+   * Add jobs to the current batch, skipping any whose key is already queued or running
+   * @returns Resolves with the batch totals once the queue drains
+   */
+  add(jobs: QueueJob[]): Promise<QueueProgress> {
+    if (!this.isRunning()) {
+      this.progress = EnrichmentQueue.emptyProgress();
+    }
+
+    for (const job of jobs) {
+      if (this.queuedKeys.has(job.key)) continue;
+      this.queuedKeys.add(job.key);
+      this.pending.push(job);
+      this.progress.total++;
+    }
+
+    const done = new Promise<QueueProgress>(resolve => this.idleWaiters.push(resolve));
+    this.pump();
+    return done;
+  }
+
+  /**
+   * Drop every job that has not started yet; running jobs finish normally
+   */
+  cancel(): void {
+    for (const job of this.pending) {
+      this.queuedKeys.delete(job.key);
+    }
+    this.progress.cancelled += this.pending.length;
+    this.pending = [];
+    this.clearWakeTimer();
+    this.pump();
+  }
+
+  isRunning(): boolean {
+    return this.pending.length > 0 || this.activeCount > 0;
+  }
+
+  private pump(): void {
+    const { concurrency, hostDelayMs } = this.getLimits();
+
+    while (this.activeCount < Math.max(1, concurrency)) {
+      const index = this.findReadyJob(hostDelayMs);
+      if (index === -1) break;
+
+      const [job] = this.pending.splice(index, 1);
+      this.start(job);
+    }
+
+    // Some jobs are waiting on a host delay: come back when the earliest one is due
+    if (this.pending.length > 0 && this.activeCount < concurrency && this.wakeTimer === null) {
+      const wait = this.msUntilNextReady(hostDelayMs);
+      if (wait !== null) {
+        this.wakeTimer = window.setTimeout(() => {
+          this.wakeTimer = null;
+          this.pump();
+        }, wait);
+      }
+    }
+
+    this.emit();
+  }
+
+  private start(job: QueueJob): void {
+    const host = EnrichmentQueue.hostOf(job.url);
+    this.activeCount++;
+    this.activeHosts.add(host);
+    this.lastHostStart.set(host, Date.now());
+
+    job.run()
+      .then(ok => {
+        if (ok) this.progress.completed++;
+        else this.progress.failed++;
+      })
+      .catch(error => {
+        console.error('Enrichment job failed:', error);
+        this.progress.failed++;
+      })
+      .finally(() => {
+        this.activeCount--;
+        this.activeHosts.delete(host);
+        this.queuedKeys.delete(job.key);
+        this.pump();
+      });
+  }
+
+  private findReadyJob(hostDelayMs: number): number {
+    const now = Date.now();
+    return this.pending.findIndex(job => {
+      const host = EnrichmentQueue.hostOf(job.url);
+      if (this.activeHosts.has(host)) return false;
+      const last = this.lastHostStart.get(host);
+      return last === undefined || now - last >= hostDelayMs;
+    });
+  }
+
+  private msUntilNextReady(hostDelayMs: number): number | null {
+    const now = Date.now();
+    let soonest: number | null = null;
+    for (const job of this.pending) {
+      const host = EnrichmentQueue.hostOf(job.url);
+      // Hosts with a running job wake the queue themselves when they finish
+      if (this.activeHosts.has(host)) continue;
+      const last = this.lastHostStart.get(host) ?? 0;
+      const wait = Math.max(0, last + hostDelayMs - now);
+      if (soonest === null || wait < soonest) soonest = wait;
+    }
+    return soonest;
+  }
+
+  private emit(): void {
+    this.progress.running = this.isRunning();
+    this.onProgress({ ...this.progress });
+
+    if (!this.progress.running && this.idleWaiters.length > 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      for (const resolve of waiters) resolve({ ...this.progress });
+    }
+  }
+
+  private clearWakeTimer(): void {
+    if (this.wakeTimer !== null) {
+      window.clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+  }
+
+  private static hostOf(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch {
+      return url;
+    }
+  }
+
+  private static emptyProgress(): QueueProgress {
+    return { total: 0, completed: 0, failed: 0, cancelled: 0, running: false };
+  }
+}
@@ -0,0 +1,86 @@
+import { App } from 'obsidian';
+import { EnrichmentState, NodeEnrichmentStatus } from '../types';
+import { JsonStore } from './json-store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StatusFile {
+  version: 1;
+  canvases: Record<string, Record<string, NodeEnrichmentStatus>>;
+}
+
+/**
+ * Status to show for a node: enriched cards older than the stale threshold count as stale
+ * @param staleAfterDays - Age in days after which an enrichment is stale (0 = never)
+ */
+export function displayedState(status: NodeEnrichmentStatus, staleAfterDays: number): EnrichmentState | 'stale' {
+  if (status.state === 'enriched' && staleAfterDays > 0 && Date.now() - status.updatedAt > staleAfterDays * DAY_MS) {
+    return 'stale';
+  }
+  return status.state;
+}
+
+/**
+ * On-disk record of each enriched node's last status, keyed by canvas path and node id
+ */
+export class EnrichmentStatusStore {
+  private store: JsonStore<StatusFile>;
+
+  constructor(app: App, filePath: string) {
+    this.store = new JsonStore<StatusFile>(app, filePath, 'enrichment status', () => ({ version: 1, canvases: {} }));
+  }
+
+  /**
+   * Record a node's status, replacing the previous one
+   */
+  async set(canvasPath: string, nodeId: string, state: EnrichmentState, error?: string): Promise<void> {
+    const { canvases } = await this.store.load();
+    const statuses = canvases[canvasPath] ?? (canvases[canvasPath] = {});
+    statuses[nodeId] = error ? { state, error, updatedAt: Date.now() } : { state, updatedAt: Date.now() };
+    await this.store.save();
+  }
+
+  /**
+   * Read the status file so list() can answer synchronously (e.g. while rendering badges).
+   * Enrichments still marked as running were interrupted by a restart, so they become failures.
+   */
+  async preload(): Promise<void> {
+    const { canvases } = await this.store.load();
+    let interrupted = false;
+    for (const statuses of Object.values(canvases)) {
+      for (const status of Object.values(statuses)) {
+        if (status.state === 'enriching') {
+          status.state = 'failed';
+          status.error = 'Interrupted before it finished';
+          interrupted = true;
+        }
+      }
+    }
+    if (interrupted) await this.store.save();
+  }
+
+  /**
+   * All statuses for a canvas, keyed by node id
+   * @returns The statuses, or an empty record before preload() has finished
+   */
+  list(canvasPath: string): Record<string, NodeEnrichmentStatus> {
+    return { ...this.store.current?.canvases[canvasPath] };
+  }
+
+  /**
+   * Forget the status of nodes, e.g. after their enrichment was reverted
+   */
+  async remove(canvasPath: string, nodeIds: string[]): Promise<void> {
+    const { canvases } = await this.store.load();
+    const statuses = canvases[canvasPath];
+    if (!statuses) return;
+
+    for (const nodeId of nodeIds) {
+      delete statuses[nodeId];
+    }
+    if (Object.keys(statuses).length === 0) {
+      delete canvases[canvasPath];
+    }
+    await this.store.save();
+  }
+}
@@ -0,0 +1,114 @@
+import { AIProvider, AIProviderType, ImageInput, JsonSchema } from '../types.js';
+
+/**
+ * Generated text together with the provider that produced it
+ */
+export interface ProviderResult {
+  text: string;
+  provider: AIProviderType;
+}
+
+interface ChainEntry {
+  type: AIProviderType;
+  provider: AIProvider;
+}
+
+/**
+ * Tries each provider in order until one returns text. A provider is skipped
+ * when it throws (unreachable, rejected, rate limited or timed out after retries).
+ * Providers time-limit each attempt themselves, streams included.
+ */
+export class FallbackProvider implements AIProvider {
+  constructor(private chain: ChainEntry[]) {}
+
+  async generate(prompt: string, context: string): Promise<string> {
+    return (await this.generateWithSource(prompt, context)).text;
+  }
+
+  /**
+   * Generate text, reporting which provider in the chain succeeded
+   * @param onText - If set, stream from providers that support it and report the text so far
+   * @throws The last provider's error when every provider fails
+   */
+  async generateWithSource(
+    prompt: string,
+    context: string,
+    onText?: (text: string) => void
+  ): Promise<ProviderResult> {
+    let lastError: unknown = new Error('No AI provider configured');
+
+    for (const { type, provider } of this.chain) {
+      try {
+        // Stream when the caller wants progress and the provider supports it
+        const text = onText && provider.generateStream
+          ? await provider.generateStream(prompt, context, onText)
+          : await provider.generate(prompt, context);
+        return { text, provider: type };
+      } catch (error) {
+        console.warn(`AI provider ${type} failed, trying next fallback:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Generate JSON, using each provider's native JSON mode when it has one
+   * @returns Raw (unvalidated) JSON text and the provider that produced it
+   * @throws The last provider's error when every provider fails
+   */
+  async generateJsonWithSource(prompt: string, context: string, schema: JsonSchema, maxTokens?: number): Promise<ProviderResult> {
+    let lastError: unknown = new Error('No AI provider configured');
+
+    for (const { type, provider } of this.chain) {
+      try {
+        const text = provider.generateJson
+          ? await provider.generateJson(prompt, context, schema, maxTokens)
+          : await provider.generate(prompt, context);
+        return { text, provider: type };
+      } catch (error) {
+        console.warn(`AI provider ${type} failed, trying next fallback:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Describe an image with the first provider in the chain that supports images
+   * @throws The last provider's error when every provider fails, or an error when none supports images
+   */
+  async describeImageWithSource(prompt: string, image: ImageInput): Promise<ProviderResult> {
+    let lastError: unknown = new Error('No configured AI provider supports images');
+
+    for (const { type, provider } of this.chain) {
+      if (!provider.describeImage) continue;
+      try {
+        const text = await provider.describeImage(prompt, image);
+        return { text, provider: type };
+      } catch (error) {
+        console.warn(`AI provider ${type} failed, trying next fallback:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  checkConnection(): Promise<boolean> {
+    return this.primary().checkConnection();
+  }
+
+  getModels(): Promise<string[]> {
+    return this.primary().getModels();
+  }
+
+  private primary(): AIProvider {
+    if (this.chain.length === 0) {
+      throw new Error('No AI provider configured');
+    }
+    return this.chain[0].provider;
+  }
+}
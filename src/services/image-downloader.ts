@@ -0,0 +1,131 @@
+import { App, TFile, TFolder, normalizePath, requestUrl } from 'obsidian';
+import { MAX_DOWNLOAD_BYTES } from '../constants';
+
+// File extension for each image type servers send
+const IMAGE_EXTENSIONS = new Map([
+  ['image/png', 'png'],
+  ['image/jpeg', 'jpg'],
+  ['image/gif', 'gif'],
+  ['image/webp', 'webp'],
+  ['image/avif', 'avif'],
+  ['image/svg+xml', 'svg'],
+  ['image/x-icon', 'ico'],
+  ['image/vnd.microsoft.icon', 'ico'],
+]);
+
+// Names given by download(): host, optional "favicon-", 16 hex digits of the URL hash, image extension
+const DOWNLOADED_NAME_RE = new RegExp(`^[a-z0-9.-]+-(favicon-)?[0-9a-f]{16}\\.(${[...new Set(IMAGE_EXTENSIONS.values())].join('|')})$`);
+
+export type DownloadedImageKind = 'image' | 'favicon';
+
+/**
+ * Downloads preview images and favicons into a vault folder, so cards keep working offline
+ * and after the remote image moves. Files are named after a hash of their URL, so a URL is
+ * only downloaded once however many cards show it.
+ */
+export class ImageDownloader {
+  private inFlight: Map<string, Promise<string | null>> = new Map();
+
+  constructor(private app: App) {}
+
+  /**
+   * Store an image in the folder, or find the copy stored earlier
+   * @returns Vault path of the local file, or null if the URL is not a downloadable image
+   */
+  download(url: string, folder: string, kind: DownloadedImageKind): Promise<string | null> {
+    const key = `${normalizePath(folder)}|${url}`;
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.fetchAndStore(url, normalizePath(folder), kind).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Images this downloader stored in the folder that none of the given texts mention.
+   * Other files in the folder are never returned, whatever their name, and nothing is returned for the vault root.
+   * @param texts - Contents of everything that may embed the images, e.g. every canvas file
+   */
+  findUnreferenced(folder: string, texts: string[]): TFile[] {
+    const dir = this.app.vault.getAbstractFileByPath(normalizePath(folder));
+    if (!(dir instanceof TFolder) || dir.isRoot()) return [];
+
+    // File names are host plus hash, which URL encoding leaves as is, so matching them is unambiguous
+    const haystack = texts.join('\n');
+    return dir.children.filter((file): file is TFile =>
+      file instanceof TFile && DOWNLOADED_NAME_RE.test(file.name) && !haystack.includes(file.name)
+    );
+  }
+
+  /**
+   * Whether any download is still being fetched or written
+   */
+  isBusy(): boolean {
+    return this.inFlight.size > 0;
+  }
+
+  private async fetchAndStore(url: string, folder: string, kind: DownloadedImageKind): Promise<string | null> {
+    const baseName = `${hostOf(url)}-${kind === 'favicon' ? 'favicon-' : ''}${await hashUrl(url)}`;
+    const existing = this.findStored(folder, baseName);
+    if (existing) return existing.path;
+
+    try {
+      const response = await requestUrl({ url, method: 'GET', throw: false });
+      const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+      const extension = IMAGE_EXTENSIONS.get(contentType);
+      if (response.status !== 200 || !extension || response.arrayBuffer.byteLength > MAX_DOWNLOAD_BYTES) {
+        return null;
+      }
+
+      await this.ensureFolder(folder);
+      const path = normalizePath(`${folder}/${baseName}.${extension}`);
+      await this.app.vault.createBinary(path, response.arrayBuffer);
+      return path;
+    } catch (error) {
+      // Another card may have stored the same image meanwhile
+      const stored = this.findStored(folder, baseName);
+      if (stored) return stored.path;
+      console.warn(`Failed to download image ${url}:`, error);
+      return null;
+    }
+  }
+
+  private findStored(folder: string, baseName: string): TFile | null {
+    const dir = this.app.vault.getAbstractFileByPath(folder);
+    if (!(dir instanceof TFolder)) return null;
+    return dir.children.find((file): file is TFile => file instanceof TFile && file.basename === baseName) ?? null;
+  }
+
+  private async ensureFolder(folderPath: string): Promise<void> {
+    if (!folderPath || folderPath === '/') return;
+
+    const existing = this.app.vault.getAbstractFileByPath(folderPath);
+    if (existing instanceof TFolder) return;
+    if (existing) {
+      throw new Error(`Attachments folder path is a file: ${folderPath}`);
+    }
+
+    await this.app.vault.createFolder(folderPath);
+  }
+}
+
+/**
+ * Link target for a vault file in card Markdown; spaces and other special characters must be encoded
+ */
+export function toMarkdownLinkPath(path: string): string {
+  return path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
+
+async function hashUrl(url: string): Promise<string> {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
+  return Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return 'image';
+  }
+}
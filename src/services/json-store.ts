@@ -0,0 +1,66 @@
+import { App } from 'obsidian';
+
+/**
+ * A JSON file in the plugin folder, read once and written back whole after each change
+ */
+export class JsonStore<T extends object> {
+  private data: T | null = null;
+  private loading: Promise<T> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * @param label - What the file holds, used in console warnings
+   * @param empty - Contents to start from when the file is missing or unreadable
+   */
+  constructor(
+    private app: App,
+    private filePath: string,
+    private label: string,
+    private empty: () => T
+  ) {}
+
+  /**
+   * The contents, or null before load() has finished
+   */
+  get current(): T | null {
+    return this.data;
+  }
+
+  /**
+   * Read the file on first use. Concurrent callers share one read, so none of them
+   * can replace the records another has already changed.
+   */
+  load(): Promise<T> {
+    this.loading ??= this.read();
+    return this.loading;
+  }
+
+  /**
+   * Write the current contents. Writes are queued so concurrent changes never interleave partial files.
+   */
+  save(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await this.app.vault.adapter.write(this.filePath, JSON.stringify(this.data ?? this.empty()));
+      } catch (error) {
+        console.warn(`Failed to write ${this.label}:`, error);
+      }
+    });
+    return this.writeChain;
+  }
+
+  private async read(): Promise<T> {
+    try {
+      if (await this.app.vault.adapter.exists(this.filePath)) {
+        const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as Partial<T>;
+        this.data = { ...this.empty(), ...data };
+      } else {
+        this.data = this.empty();
+      }
+    } catch (error) {
+      console.warn(`Failed to read ${this.label}, starting empty:`, error);
+      this.data = this.empty();
+    }
+    return this.data;
+  }
+}
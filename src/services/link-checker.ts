@@ -0,0 +1,133 @@
+import { requestUrl } from 'obsidian';
+import { LinkHealth } from '../types';
+import { PARKED_PAGE_MAX_TEXT, PARKED_PAGE_PHRASES, PARKING_SERVICE_HOSTS, WEB_ARCHIVE_URL } from '../constants';
+
+// The page is gone for good
+const NOT_FOUND_STATUSES = [404, 410];
+// Sites that refuse automated requests; the page is most likely still there
+const BLOCKED_STATUSES = [401, 403, 429];
+
+/**
+ * Fetch a link and classify its health. requestUrl follows HTTP redirects without reporting them,
+ * so only a meta refresh to another site counts as a move. A canonical URL on another site is common
+ * for working pages (syndicated posts, AMP pages, custom-domain blogs), so it is only noted in the detail.
+ */
+export async function checkLink(url: string): Promise<LinkHealth> {
+  const checkedAt = Date.now();
+
+  let response;
+  try {
+    response = await requestUrl({ url, method: 'GET', throw: false });
+  } catch (error) {
+    return { url, state: 'unreachable', detail: error instanceof Error ? error.message : String(error), checkedAt };
+  }
+
+  if (NOT_FOUND_STATUSES.includes(response.status)) {
+    return { url, state: 'not-found', detail: `HTTP ${response.status}`, checkedAt };
+  }
+  if (BLOCKED_STATUSES.includes(response.status)) {
+    return { url, state: 'ok', detail: `HTTP ${response.status}, the site blocks automated checks`, checkedAt };
+  }
+  if (response.status >= 400) {
+    return { url, state: 'unreachable', detail: `HTTP ${response.status}`, checkedAt };
+  }
+
+  const contentType = response.headers['content-type'] ?? '';
+  if (!contentType.includes('html')) {
+    return { url, state: 'ok', checkedAt };
+  }
+
+  const html = response.text;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const parkedBy = findParkingSignal(doc, url);
+  if (parkedBy) {
+    return { url, state: 'parked', detail: parkedBy, checkedAt };
+  }
+
+  const refresh = doc.querySelector('meta[http-equiv="refresh" i]')?.getAttribute('content');
+  const movedTo = resolveHttpUrl(refresh?.match(/url\s*=\s*['"]?([^'";]+)/i)?.[1], url);
+  if (movedTo && !isSameSite(url, movedTo)) {
+    return { url, state: 'redirected', detail: `Now points to ${new URL(movedTo).hostname}`, movedTo, checkedAt };
+  }
+
+  const canonical = resolveHttpUrl(
+    doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ?? doc.querySelector('meta[property="og:url"]')?.getAttribute('content'),
+    url
+  );
+  if (canonical && !isSameSite(url, canonical)) {
+    return { url, state: 'ok', detail: `Canonical copy is on ${new URL(canonical).hostname}`, checkedAt };
+  }
+
+  return { url, state: 'ok', checkedAt };
+}
+
+/**
+ * Check many links, a few at a time; each distinct URL is fetched once
+ * @param concurrency - Maximum number of requests in flight
+ * @returns Health by URL
+ */
+export async function checkLinks(urls: string[], concurrency: number): Promise<Map<string, LinkHealth>> {
+  const pending = Array.from(new Set(urls));
+  const results = new Map<string, LinkHealth>();
+
+  const worker = async () => {
+    for (let url = pending.shift(); url !== undefined; url = pending.shift()) {
+      results.set(url, await checkLink(url));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+  return results;
+}
+
+/**
+ * Web archive page listing the saved snapshots of a URL
+ */
+export function archiveUrl(url: string): string {
+  return `${WEB_ARCHIVE_URL}${url}`;
+}
+
+// Why a page looks like a parking page: it embeds a parking service, or its title (or its whole text,
+// if the page is short) says the domain is for sale. Mentions in real articles don't count.
+function findParkingSignal(doc: Document, baseUrl: string): string | null {
+  const embedded = Array.from(doc.querySelectorAll('script[src], iframe[src], form[action]'))
+    .map(el => el.getAttribute('src') ?? el.getAttribute('action') ?? '');
+  for (const src of embedded) {
+    let resolved: string;
+    try {
+      resolved = new URL(src, baseUrl).href;
+    } catch {
+      continue;
+    }
+    // The parking services' own sites are not parked
+    if (isSameSite(baseUrl, resolved)) continue;
+
+    const host = new URL(resolved).hostname.toLowerCase();
+    const service = PARKING_SERVICE_HOSTS.find(service => host === service || host.endsWith(`.${service}`));
+    if (service) return `Page is served by ${service}`;
+  }
+
+  const title = doc.title.toLowerCase();
+  const text = (doc.body?.textContent ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+  const phrase = PARKED_PAGE_PHRASES.find(phrase =>
+    title.includes(phrase) || (text.length <= PARKED_PAGE_MAX_TEXT && text.includes(phrase))
+  );
+  return phrase ? `Page says "${phrase}"` : null;
+}
+
+// An http(s) URL resolved against the page, or null for missing and invalid values
+function resolveHttpUrl(value: string | null | undefined, baseUrl: string): string | null {
+  if (!value) return null;
+  try {
+    const resolved = new URL(value.trim(), baseUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Same host, ignoring www. and subdomains of one another (blog.example.com and example.com)
+function isSameSite(a: string, b: string): boolean {
+  const hostA = new URL(a).hostname.replace(/^www\./, '');
+  const hostB = new URL(b).hostname.replace(/^www\./, '');
+  return hostA === hostB || hostA.endsWith(`.${hostB}`) || hostB.endsWith(`.${hostA}`);
+}
@@ -0,0 +1,53 @@
+import { App } from 'obsidian';
+import { LinkHealth } from '../types';
+import { JsonStore } from './json-store';
+
+interface HealthFile {
+  version: 1;
+  lastCheckAt: number;
+  canvases: Record<string, Record<string, LinkHealth>>;
+}
+
+/**
+ * On-disk record of each link card's last health check, keyed by canvas path and node id
+ */
+export class LinkHealthStore {
+  private store: JsonStore<HealthFile>;
+
+  constructor(app: App, filePath: string) {
+    this.store = new JsonStore<HealthFile>(app, filePath, 'link health', () => ({ version: 1, lastCheckAt: 0, canvases: {} }));
+  }
+
+  /**
+   * Read the health file so list() can answer synchronously (e.g. while rendering badges)
+   */
+  async preload(): Promise<void> {
+    await this.store.load();
+  }
+
+  /**
+   * Store the results of a full check, replacing every earlier result so deleted cards and canvases drop out
+   * @param canvases - Health by canvas path and node id
+   */
+  async replaceAll(canvases: Record<string, Record<string, LinkHealth>>): Promise<void> {
+    const file = await this.store.load();
+    file.canvases = canvases;
+    file.lastCheckAt = Date.now();
+    await this.store.save();
+  }
+
+  /**
+   * All results for a canvas, keyed by node id
+   * @returns The results, or an empty record before preload() has finished
+   */
+  list(canvasPath: string): Record<string, LinkHealth> {
+    return { ...this.store.current?.canvases[canvasPath] };
+  }
+
+  /**
+   * When the last full check finished, in milliseconds (0 = never)
+   */
+  async lastCheck(): Promise<number> {
+    return (await this.store.load()).lastCheckAt;
+  }
+}
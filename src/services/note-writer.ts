@@ -0,0 +1,226 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { AIProviderType, StructuredEnrichment, UrlMetadata } from '../types';
+
+// Optional details recorded in the note when available
+export interface NoteExtras {
+  provider?: AIProviderType;
+  structured?: StructuredEnrichment;
+}
+
+// Around the part of a URL's note that re-enriching replaces; the rest of the note is the user's
+const GENERATED_START = '%% detailed-canvas: generated %%';
+const GENERATED_END = '%% detailed-canvas: end generated %%';
+
+// Headings the writer produced before the markers existed
+const GENERATED_HEADING_RE = /^#{1,2} (\[|Summary$|Key points$|Extracted text$)/;
+
+/**
+ * Writes one Markdown note per enriched URL, canvas overview notes and run reports into the configured notes folder
+ */
+export class NoteWriter {
+  private notePaths = new Map<string, string>(); // URL → note path, known before the metadata cache has indexed the note
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private app: App) {}
+
+  /**
+   * Create or update the note for a URL. Only the generated section and the properties
+   * are rewritten, so anything the user added to the note is kept.
+   * @param folder - Vault folder to write the note into
+   * @param metadata - Scraped metadata for the URL
+   * @param summary - AI-generated summary
+   * @param extras - Provider and structured fields, if any
+   * @returns Path of the written note
+   */
+  writeNote(folder: string, metadata: UrlMetadata, summary: string, extras: NoteExtras = {}): Promise<string> {
+    // One note at a time, so two cards with the same title cannot both create the same file
+    const written = this.writeChain.then(() => this.writeNoteNow(folder, metadata, summary, extras));
+    this.writeChain = written.catch(() => undefined);
+    return written;
+  }
+
+  private async writeNoteNow(folder: string, metadata: UrlMetadata, summary: string, extras: NoteExtras): Promise<string> {
+    const { provider, structured } = extras;
+    const folderPath = normalizePath(folder);
+    await this.ensureFolder(folderPath);
+
+    const title = metadata.title || new URL(metadata.url).hostname;
+    const notePath = this.findNotePath(folderPath, this.sanitizeFileName(title), metadata.url);
+    const generated = this.buildBody(title, metadata, summary, structured);
+
+    const existing = this.app.vault.getAbstractFileByPath(notePath);
+    let file: TFile;
+    if (existing instanceof TFile) {
+      await this.app.vault.process(existing, content => replaceGenerated(content, generated));
+      file = existing;
+    } else {
+      file = await this.app.vault.create(notePath, `${generated}\n`);
+    }
+    this.notePaths.set(metadata.url, file.path);
+
+    // Let Obsidian serialize the YAML so titles with quotes/colons stay valid
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+      // Site details first so the standard properties below take precedence
+      for (const [key, value] of Object.entries(metadata.details ?? {})) {
+        frontmatter[key] = value;
+      }
+      frontmatter.url = metadata.url;
+      frontmatter.title = title;
+      frontmatter.siteName = metadata.siteName ?? new URL(metadata.url).hostname;
+      frontmatter.ogImage = metadata.ogImage ?? '';
+      frontmatter.fetched = new Date().toISOString();
+      if (provider) {
+        frontmatter.provider = provider;
+      }
+      if (structured) {
+        frontmatter.tags = structured.tags;
+        frontmatter.contentType = structured.contentType;
+        frontmatter.readingTime = structured.readingTimeMinutes;
+      }
+    });
+
+    return file.path;
+  }
+
+  /**
+   * Create or update a canvas overview note
+   * @param folder - Vault folder to write the note into
+   * @param title - Note title, also used as the file name
+   * @param overview - AI-generated overview in Markdown
+   * @param canvasPath - Path of the summarized canvas, linked from the note
+   * @param provider - Provider that wrote the overview
+   * @returns Path of the written note
+   */
+  async writeOverview(folder: string, title: string, overview: string, canvasPath: string, provider?: AIProviderType): Promise<string> {
+    const folderPath = normalizePath(folder);
+    await this.ensureFolder(folderPath);
+
+    const notePath = normalizePath(`${folderPath}/${this.sanitizeFileName(title)}.md`);
+    const body = `# ${title}
+
+${overview}
+`;
+
+    const existing = this.app.vault.getAbstractFileByPath(notePath);
+    let file: TFile;
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, body);
+      file = existing;
+    } else {
+      file = await this.app.vault.create(notePath, body);
+    }
+
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+      frontmatter.canvas = `[[${canvasPath}]]`;
+      frontmatter.generated = new Date().toISOString();
+      if (provider) {
+        frontmatter.provider = provider;
+      }
+    });
+
+    return file.path;
+  }
+
+  /**
+   * Create or update a plain report note, e.g. the summary of a vault-wide enrichment run
+   * @param folder - Vault folder to write the note into
+   * @param title - Note title, also used as the file name
+   * @param body - Report content in Markdown
+   * @returns Path of the written note
+   */
+  async writeReport(folder: string, title: string, body: string): Promise<string> {
+    const folderPath = normalizePath(folder);
+    await this.ensureFolder(folderPath);
+
+    const notePath = normalizePath(`${folderPath}/${this.sanitizeFileName(title)}.md`);
+    const content = `# ${title}\n\n${body}\n`;
+
+    const existing = this.app.vault.getAbstractFileByPath(notePath);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+      return existing.path;
+    }
+    return (await this.app.vault.create(notePath, content)).path;
+  }
+
+  /**
+   * Path for a URL's note: the title's name, or the same name with a number when another
+   * URL's note (or a note of the user's) already has it. Notes written for the same URL are reused.
+   */
+  private findNotePath(folderPath: string, baseName: string, url: string): string {
+    for (let n = 1; ; n++) {
+      const notePath = normalizePath(`${folderPath}/${n === 1 ? baseName : `${baseName} ${n}`}.md`);
+      const existing = this.app.vault.getAbstractFileByPath(notePath);
+      if (!existing || this.notePaths.get(url) === notePath) return notePath;
+
+      const frontmatter = existing instanceof TFile ? this.app.metadataCache.getFileCache(existing)?.frontmatter : undefined;
+      if (frontmatter?.url === url) return notePath;
+    }
+  }
+
+  /**
+   * Build the generated section: summary, key points (structured mode), then the extracted page text
+   */
+  private buildBody(title: string, metadata: UrlMetadata, summary: string, structured?: StructuredEnrichment): string {
+    const sections = [
+      `# [${title}](${metadata.url})`,
+      `## Summary\n\n${summary}`,
+    ];
+
+    if (structured && structured.keyPoints.length > 0) {
+      sections.push(`## Key points\n\n${structured.keyPoints.map(point => `- ${point}`).join('\n')}`);
+    }
+
+    if (metadata.textContent) {
+      sections.push(`## Extracted text\n\n${metadata.textContent}`);
+    }
+
+    return [GENERATED_START, ...sections, GENERATED_END].join('\n\n');
+  }
+
+  /**
+   * Create the folder (and parents) if it does not exist yet
+   */
+  private async ensureFolder(folderPath: string): Promise<void> {
+    if (!folderPath || folderPath === '/') return;
+
+    const existing = this.app.vault.getAbstractFileByPath(folderPath);
+    if (existing instanceof TFolder) return;
+    if (existing) {
+      throw new Error(`Notes folder path is a file: ${folderPath}`);
+    }
+
+    await this.app.vault.createFolder(folderPath);
+  }
+
+  /**
+   * Strip characters that are not allowed in vault file names
+   */
+  private sanitizeFileName(name: string): string {
+    const cleaned = name
+      .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .substring(0, 100)
+      .trim();
+    return cleaned || 'Untitled link';
+  }
+}
+
+/**
+ * Swap the generated section of a note for a new one, keeping the properties and the user's own text
+ */
+function replaceGenerated(content: string, generated: string): string {
+  const start = content.indexOf(GENERATED_START);
+  const end = content.indexOf(GENERATED_END, start);
+  if (start !== -1 && end !== -1) {
+    return content.slice(0, start) + generated + content.slice(end + GENERATED_END.length);
+  }
+
+  // Notes from before the markers: the generated part runs from the title to the first heading the writer did not write
+  const bodyStart = content.match(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/)?.[0].length ?? 0;
+  const lines = content.slice(bodyStart).split('\n');
+  const userStart = lines.findIndex(line => /^#{1,2} /.test(line) && !GENERATED_HEADING_RE.test(line));
+  const userText = userStart === -1 ? '' : `\n\n${lines.slice(userStart).join('\n')}`;
+  return `${content.slice(0, bodyStart)}${generated}${userText.trimEnd()}\n`;
+}
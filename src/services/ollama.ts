@@ -1,6 +1,8 @@
 import { requestUrl } from 'obsidian';
-import { AIProvider, OllamaGenerateRequest, OllamaGenerateResponse } from '../types';
-import { OLLAMA_GENERATE_ENDPOINT, OLLAMA_TAGS_ENDPOINT } from '../constants';
+import { AIProvider, ImageInput, JsonSchema, OllamaEmbeddingsRequest, OllamaEmbeddingsResponse, OllamaGenerateRequest, OllamaGenerateResponse } from '../types';
+import { OLLAMA_EMBEDDINGS_ENDPOINT, OLLAMA_GENERATE_ENDPOINT, OLLAMA_TAGS_ENDPOINT } from '../constants';
+import { requestWithRetry, RetryOptions, ProviderHttpError } from './retry';
+import { streamLines } from './streaming';
 
 /**
  * Response type for Ollama tags endpoint
@@ -20,7 +22,8 @@ interface OllamaTagsResponse {
 export class OllamaClient implements AIProvider {
   constructor(
     private endpoint: string,
-    private model: string
+    private model: string,
+    private retry: RetryOptions = { maxAttempts: 1 }
   ) {}
 
   /**
@@ -46,21 +49,14 @@ export class OllamaClient implements AIProvider {
         },
       };
 
-      const response = await requestUrl({
+      const response = await requestWithRetry({
         url: `${this.endpoint}${OLLAMA_GENERATE_ENDPOINT}`,
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(request),
-        throw: false,
-      });
-
-      if (response.status !== 200) {
-        throw new Error(
-          `Ollama API request failed with status ${response.status}: ${response.text}`
-        );
-      }
+      }, this.retry, 'Ollama API');
 
       const data = response.json as OllamaGenerateResponse;
 
@@ -70,6 +66,10 @@ export class OllamaClient implements AIProvider {
 
       return data.response.trim();
     } catch (error) {
+      if (error instanceof ProviderHttpError) {
+        // Keep the status/retryable classification for callers
+        throw new ProviderHttpError(`Failed to generate text: ${error.message}`, error.status, error.retryable);
+      }
       if (error instanceof Error) {
         throw new Error(`Failed to generate text: ${error.message}`);
       }
@@ -77,6 +77,158 @@ export class OllamaClient implements AIProvider {
     }
   }
 
+  /**
+   * Generate JSON constrained to a schema via Ollama's structured outputs (format field)
+   * @param prompt The prompt to send to the model
+   * @param context Additional context for the generation
+   * @param schema JSON schema the response must follow
+   * @param maxTokens Maximum tokens to generate
+   * @returns The raw JSON text
+   * @throws Error if the request fails
+   */
+  async generateJson(prompt: string, context: string, schema: JsonSchema, maxTokens = 800): Promise<string> {
+    const fullPrompt = context
+      ? `Context:\n${context}\n\n${prompt}`
+      : prompt;
+
+    const request: OllamaGenerateRequest = {
+      model: this.model,
+      prompt: fullPrompt,
+      stream: false,
+      format: schema,
+      options: {
+        temperature: 0.2,
+        num_predict: maxTokens,
+      },
+    };
+
+    const response = await requestWithRetry({
+      url: `${this.endpoint}${OLLAMA_GENERATE_ENDPOINT}`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    }, this.retry, 'Ollama API');
+
+    const data = response.json as OllamaGenerateResponse;
+    if (!data.response) {
+      throw new Error('Invalid response from Ollama API: missing response field');
+    }
+    return data.response.trim();
+  }
+
+  /**
+   * Describe an image with a vision model (e.g. llava, llama3.2-vision) via the images field
+   * @param prompt Instructions for the description
+   * @param image Base64-encoded image
+   * @returns The generated description
+   * @throws Error if the request fails
+   */
+  async describeImage(prompt: string, image: ImageInput): Promise<string> {
+    const request: OllamaGenerateRequest = {
+      model: this.model,
+      prompt,
+      stream: false,
+      images: [image.data],
+      options: {
+        temperature: 0.7,
+        num_predict: 500,
+      },
+    };
+
+    const response = await requestWithRetry({
+      url: `${this.endpoint}${OLLAMA_GENERATE_ENDPOINT}`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    }, this.retry, 'Ollama API');
+
+    const data = response.json as OllamaGenerateResponse;
+    if (!data.response) {
+      throw new Error('Invalid response from Ollama API: missing response field');
+    }
+    return data.response.trim();
+  }
+
+  /**
+   * Embed texts with an embedding model (e.g. nomic-embed-text) via /api/embeddings, one request per text
+   * @param texts Texts to embed
+   * @returns One vector per text, in order
+   * @throws Error if a request fails
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (const text of texts) {
+      const request: OllamaEmbeddingsRequest = { model: this.model, prompt: text };
+      const response = await requestWithRetry({
+        url: `${this.endpoint}${OLLAMA_EMBEDDINGS_ENDPOINT}`,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      }, this.retry, 'Ollama API');
+
+      const data = response.json as OllamaEmbeddingsResponse;
+      if (!Array.isArray(data.embedding) || data.embedding.length === 0) {
+        throw new Error('Invalid response from Ollama API: missing embedding');
+      }
+      vectors.push(data.embedding);
+    }
+    return vectors;
+  }
+
+  /**
+   * Stream text from Ollama's /api/generate endpoint (newline-delimited JSON)
+   * @param prompt The prompt to send to the model
+   * @param context Additional context for the generation
+   * @param onText Called with the full text generated so far after each chunk
+   * @returns The complete generated text
+   * @throws Error if the request fails
+   */
+  async generateStream(prompt: string, context: string, onText: (text: string) => void): Promise<string> {
+    const fullPrompt = context
+      ? `Context:\n${context}\n\n${prompt}`
+      : prompt;
+
+    const request: OllamaGenerateRequest = {
+      model: this.model,
+      prompt: fullPrompt,
+      stream: true,
+      options: {
+        temperature: 0.7,
+        num_predict: 500,
+      },
+    };
+
+    let text = '';
+    await streamLines(
+      `${this.endpoint}${OLLAMA_GENERATE_ENDPOINT}`,
+      { 'Content-Type': 'application/json' },
+      request,
+      'Ollama API',
+      this.retry,
+      (line) => {
+        const chunk = JSON.parse(line) as OllamaGenerateResponse & { error?: string };
+        if (chunk.error) {
+          throw new Error(`Ollama API error: ${chunk.error}`);
+        }
+        if (chunk.response) {
+          text += chunk.response;
+          onText(text);
+        }
+      }
+    );
+
+    if (!text) {
+      throw new Error('Invalid response from Ollama API: empty stream');
+    }
+    return text.trim();
+  }
+
   /**
    * Check if Ollama is running and accessible
    * @returns true if connection is successful, false otherwise
@@ -1,12 +1,15 @@
 import { requestUrl } from 'obsidian';
-import { AIProvider, OpenAIChatRequest, OpenAIChatResponse } from '../types.js';
+import { AIProvider, ImageInput, JsonSchema, OpenAIChatRequest, OpenAIChatResponse, OpenAIChatStreamChunk, OpenAIEmbeddingsRequest, OpenAIEmbeddingsResponse } from '../types.js';
+import { requestWithRetry, RetryOptions } from './retry.js';
+import { streamLines, parseSseData } from './streaming.js';
 
 export class OpenAICompatibleProvider implements AIProvider {
   constructor(
     private apiKey: string,
     private model: string,
     private baseUrl: string,
-    private extraHeaders: Record<string, string> = {}
+    private extraHeaders: Record<string, string> = {},
+    private retry: RetryOptions = { maxAttempts: 1 }
   ) {}
 
   async generate(prompt: string, context: string): Promise<string> {
@@ -23,7 +26,7 @@ export class OpenAICompatibleProvider implements AIProvider {
       temperature: 0.7,
     };
 
-    const response = await requestUrl({
+    const response = await requestWithRetry({
       url: `${this.baseUrl}/chat/completions`,
       method: 'POST',
       headers: {
@@ -32,13 +35,81 @@ export class OpenAICompatibleProvider implements AIProvider {
         ...this.extraHeaders,
       },
       body: JSON.stringify(request),
-      throw: false,
-    });
+    }, this.retry, 'API');
 
-    if (response.status !== 200) {
-      throw new Error(`API request failed with status ${response.status}: ${response.text}`);
+    const data = response.json as OpenAIChatResponse;
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error('Invalid response: no choices returned');
+    }
+
+    return data.choices[0].message.content.trim();
+  }
+
+  async generateJson(prompt: string, context: string, schema: JsonSchema, maxTokens = 800): Promise<string> {
+    const fullPrompt = context
+      ? `Context:\n${context}\n\n${prompt}`
+      : prompt;
+
+    // json_object is supported by OpenAI, Groq and most OpenRouter models; the schema travels in the prompt
+    const request: OpenAIChatRequest = {
+      model: this.model,
+      messages: [
+        { role: 'system', content: `Respond only with a JSON object matching this schema:\n${JSON.stringify(schema)}` },
+        { role: 'user', content: fullPrompt }
+      ],
+      max_tokens: maxTokens,
+      temperature: 0.2,
+      response_format: { type: 'json_object' },
+    };
+
+    const response = await requestWithRetry({
+      url: `${this.baseUrl}/chat/completions`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.extraHeaders,
+      },
+      body: JSON.stringify(request),
+    }, this.retry, 'API');
+
+    const data = response.json as OpenAIChatResponse;
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error('Invalid response: no choices returned');
     }
 
+    return data.choices[0].message.content.trim();
+  }
+
+  async describeImage(prompt: string, image: ImageInput): Promise<string> {
+    const request: OpenAIChatRequest = {
+      model: this.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:${image.mediaType};base64,${image.data}` } },
+          ],
+        }
+      ],
+      max_tokens: 500,
+      temperature: 0.7,
+    };
+
+    const response = await requestWithRetry({
+      url: `${this.baseUrl}/chat/completions`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.extraHeaders,
+      },
+      body: JSON.stringify(request),
+    }, this.retry, 'API');
+
     const data = response.json as OpenAIChatResponse;
 
     if (!data.choices || data.choices.length === 0) {
@@ -48,6 +119,78 @@ export class OpenAICompatibleProvider implements AIProvider {
     return data.choices[0].message.content.trim();
   }
 
+  async embed(texts: string[]): Promise<number[][]> {
+    const request: OpenAIEmbeddingsRequest = {
+      model: this.model,
+      input: texts,
+    };
+
+    const response = await requestWithRetry({
+      url: `${this.baseUrl}/embeddings`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.extraHeaders,
+      },
+      body: JSON.stringify(request),
+    }, this.retry, 'API');
+
+    const data = response.json as OpenAIEmbeddingsResponse;
+
+    if (!data.data || data.data.length !== texts.length) {
+      throw new Error('Invalid response: expected one embedding per input');
+    }
+
+    // Entries carry their input index; don't rely on response order
+    return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+
+  async generateStream(prompt: string, context: string, onText: (text: string) => void): Promise<string> {
+    const fullPrompt = context
+      ? `Context:\n${context}\n\n${prompt}`
+      : prompt;
+
+    const request: OpenAIChatRequest = {
+      model: this.model,
+      messages: [
+        { role: 'user', content: fullPrompt }
+      ],
+      max_tokens: 500,
+      temperature: 0.7,
+      stream: true,
+    };
+
+    let text = '';
+    await streamLines(
+      `${this.baseUrl}/chat/completions`,
+      {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.extraHeaders,
+      },
+      request,
+      'API',
+      this.retry,
+      (line) => {
+        const data = parseSseData(line);
+        if (!data || data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as OpenAIChatStreamChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      }
+    );
+
+    if (!text) {
+      throw new Error('Invalid response: empty stream');
+    }
+    return text.trim();
+  }
+
   async checkConnection(): Promise<boolean> {
     try {
       const response = await requestUrl({
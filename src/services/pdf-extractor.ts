@@ -0,0 +1,92 @@
+import { loadPdfJs } from 'obsidian';
+import { truncateAtParagraph } from './content-extractor';
+
+// Only the first pages are read: enough for title page, abstract and introduction
+const MAX_PDF_PAGES = 5;
+
+/**
+ * Text and document info extracted from a PDF
+ */
+export interface PdfContent {
+  title: string | null;
+  author: string | null;
+  pageCount: number;
+  text: string;
+}
+
+// The parts of the PDF.js API used here (Obsidian bundles PDF.js without typings)
+interface PdfJsLib {
+  getDocument(params: { data: Uint8Array }): { promise: Promise<PdfDocument> };
+}
+
+interface PdfDocument {
+  numPages: number;
+  getMetadata(): Promise<{ info?: { Title?: string; Author?: string } }>;
+  getPage(pageNumber: number): Promise<PdfPage>;
+  destroy(): Promise<void>;
+}
+
+interface PdfPage {
+  getTextContent(): Promise<{ items: { str?: string; hasEOL?: boolean }[] }>;
+}
+
+/**
+ * Check a response's Content-Type (or, failing that, the file signature) for a PDF
+ */
+export function isPdfResponse(headers: Record<string, string>, data: ArrayBuffer): boolean {
+  const contentType = Object.entries(headers)
+    .find(([name]) => name.toLowerCase() === 'content-type')?.[1] ?? '';
+  if (contentType.toLowerCase().includes('application/pdf')) {
+    return true;
+  }
+
+  // Some servers send PDFs as application/octet-stream
+  const signature = new Uint8Array(data.slice(0, 5));
+  return String.fromCharCode(...signature) === '%PDF-';
+}
+
+/**
+ * Extract document info and the text of the first pages with Obsidian's bundled PDF.js
+ * @param data - Raw PDF bytes
+ * @param maxLength - Maximum number of text characters to return
+ */
+export async function extractPdf(data: ArrayBuffer, maxLength: number): Promise<PdfContent> {
+  const pdfjs = await loadPdfJs() as PdfJsLib;
+  // PDF.js transfers the buffer to its worker; copy so the caller's buffer stays usable
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+
+  try {
+    const { info } = await pdf.getMetadata().catch(() => ({ info: undefined }));
+    const pages: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PDF_PAGES); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageText = content.items
+        .map(item => (item.str ?? '') + (item.hasEOL ? '\n' : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+      if (pageText) pages.push(pageText);
+    }
+
+    return {
+      title: cleanInfo(info?.Title),
+      author: cleanInfo(info?.Author),
+      pageCount: pdf.numPages,
+      text: truncateAtParagraph(pages.join('\n\n'), maxLength),
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Word processors often leave placeholder titles such as "Microsoft Word - draft.docx"
+function cleanInfo(value: string | undefined): string | null {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed || /^(untitled|microsoft word - )/i.test(trimmed) || /\.(docx?|tex|dvi)$/i.test(trimmed)) {
+    return null;
+  }
+  return trimmed;
+}
@@ -0,0 +1,61 @@
+import { PromptProfile } from '../types';
+
+/**
+ * Check whether a host matches a profile pattern.
+ * "github.com" matches the host and its subdomains; "*" is a wildcard ("*.substack.com", "amazon.*").
+ */
+export function matchesHost(pattern: string, host: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase();
+  const normalizedHost = host.toLowerCase();
+  if (!normalizedPattern) return false;
+
+  if (!normalizedPattern.includes('*')) {
+    return normalizedHost === normalizedPattern || normalizedHost.endsWith(`.${normalizedPattern}`);
+  }
+
+  const escaped = normalizedPattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`).test(normalizedHost);
+}
+
+/**
+ * Pick the prompt profile for a URL.
+ * Priority: manual override, then the canvas's profile, then the first host pattern match.
+ * @returns The profile, or null to use the global prompt
+ */
+export function resolveProfile(
+  profiles: PromptProfile[],
+  url: string,
+  overrideId?: string,
+  canvasProfileId?: string
+): PromptProfile | null {
+  for (const id of [overrideId, canvasProfileId]) {
+    if (!id) continue;
+    const profile = profiles.find(p => p.id === id);
+    if (profile) return profile;
+  }
+
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return null;
+  }
+
+  return profiles.find(profile => profile.hostPatterns.some(pattern => matchesHost(pattern, host))) ?? null;
+}
+
+/**
+ * Create an id for a new profile that does not collide with existing ones
+ */
+export function createProfileId(name: string, profiles: PromptProfile[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+  let id = base;
+  let suffix = 2;
+  while (profiles.some(p => p.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
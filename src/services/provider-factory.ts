@@ -1,7 +1,9 @@
-import { AIProvider, DetailedCanvasSettings } from '../types.js';
+import { AIProvider, AIProviderType, DetailedCanvasSettings, EmbeddingProviderType, PromptProfile } from '../types.js';
 import { OllamaClient } from './ollama.js';
 import { OpenAICompatibleProvider } from './openai-provider.js';
 import { ClaudeProvider } from './claude-provider.js';
+import { RetryOptions } from './retry.js';
+import { FallbackProvider } from './fallback-provider.js';
 import {
   OPENAI_BASE_URL,
   OPENROUTER_BASE_URL,
@@ -10,8 +12,17 @@ import {
   ENV_OPENROUTER_API_KEY,
   ENV_GROQ_API_KEY,
   ENV_ANTHROPIC_API_KEY,
+  AI_TIMEOUT,
 } from '../constants.js';
 
+const MODEL_SETTING_KEYS: Record<AIProviderType, 'ollamaModel' | 'openaiModel' | 'openrouterModel' | 'groqModel' | 'claudeModel'> = {
+  ollama: 'ollamaModel',
+  openai: 'openaiModel',
+  openrouter: 'openrouterModel',
+  groq: 'groqModel',
+  claude: 'claudeModel',
+};
+
 function getApiKey(storedKey: string, envVarName: string, useEnv: boolean): string {
   if (useEnv && typeof process !== 'undefined' && process.env) {
     const envKey = process.env[envVarName];
@@ -21,32 +32,78 @@ function getApiKey(storedKey: string, envVarName: string, useEnv: boolean): stri
 }
 
 export function createProvider(settings: DetailedCanvasSettings): AIProvider {
-  switch (settings.aiProvider) {
+  return createProviderOfType(settings.aiProvider, settings);
+}
+
+/**
+ * Create the primary provider followed by the configured fallbacks (duplicates removed)
+ */
+export function createProviderChain(settings: DetailedCanvasSettings): FallbackProvider {
+  const order = [settings.aiProvider, ...settings.providerFallbacks]
+    .filter((type, index, all) => all.indexOf(type) === index);
+
+  return new FallbackProvider(
+    order.map(type => ({ type, provider: createProviderOfType(type, settings) }))
+  );
+}
+
+/**
+ * Apply a prompt profile's provider/model override on top of the plugin settings
+ */
+export function applyProfileOverrides(settings: DetailedCanvasSettings, profile: PromptProfile): DetailedCanvasSettings {
+  const aiProvider = profile.provider || settings.aiProvider;
+  const overridden: DetailedCanvasSettings = { ...settings, aiProvider };
+  if (profile.model) {
+    overridden[MODEL_SETTING_KEYS[aiProvider]] = profile.model;
+  }
+  return overridden;
+}
+
+/**
+ * Create the provider that embeds text for semantic search, using the embedding model
+ * @returns The provider, or null when semantic search is turned off
+ */
+export function createEmbeddingProvider(settings: DetailedCanvasSettings): AIProvider | null {
+  const type: EmbeddingProviderType = settings.embeddingProvider;
+  if (type === 'off') return null;
+
+  const model = settings.embeddingModel;
+  return createProviderOfType(type, {
+    ...settings,
+    ollamaModel: model,
+    openaiModel: model,
+  });
+}
+
+export function createProviderOfType(type: AIProviderType, settings: DetailedCanvasSettings): AIProvider {
+  const retry: RetryOptions = { maxAttempts: settings.maxRetryAttempts, attemptTimeoutMs: AI_TIMEOUT };
+
+  switch (type) {
     case 'openai': {
       const apiKey = getApiKey(settings.openaiApiKey, ENV_OPENAI_API_KEY, settings.useEnvVariables);
       const baseUrl = settings.openaiBaseUrl || OPENAI_BASE_URL;
-      return new OpenAICompatibleProvider(apiKey, settings.openaiModel, baseUrl);
+      return new OpenAICompatibleProvider(apiKey, settings.openaiModel, baseUrl, {}, retry);
     }
 
     case 'openrouter': {
       const apiKey = getApiKey(settings.openrouterApiKey, ENV_OPENROUTER_API_KEY, settings.useEnvVariables);
       return new OpenAICompatibleProvider(apiKey, settings.openrouterModel, OPENROUTER_BASE_URL, {
         'HTTP-Referer': 'https://obsidian.md',
-      });
+      }, retry);
     }
 
     case 'groq': {
       const apiKey = getApiKey(settings.groqApiKey, ENV_GROQ_API_KEY, settings.useEnvVariables);
-      return new OpenAICompatibleProvider(apiKey, settings.groqModel, GROQ_BASE_URL);
+      return new OpenAICompatibleProvider(apiKey, settings.groqModel, GROQ_BASE_URL, {}, retry);
     }
 
     case 'claude': {
       const apiKey = getApiKey(settings.claudeApiKey, ENV_ANTHROPIC_API_KEY, settings.useEnvVariables);
-      return new ClaudeProvider(apiKey, settings.claudeModel);
+      return new ClaudeProvider(apiKey, settings.claudeModel, retry);
     }
 
     case 'ollama':
     default:
-      return new OllamaClient(settings.ollamaEndpoint, settings.ollamaModel);
+      return new OllamaClient(settings.ollamaEndpoint, settings.ollamaModel, retry);
   }
 }
@@ -0,0 +1,145 @@
+import { AIProviderType, JsonSchema, RelationshipSuggestions, SuggestedCluster, SuggestedEdge } from '../types';
+import { FallbackProvider } from './fallback-provider';
+import { StructuredOutputError, repairJson } from './structured-output';
+
+// Cards are numbered in the prompt: models copy short numbers far more reliably than 16-character node ids
+const RELATIONSHIP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    edges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'integer', description: 'Number of the first card' },
+          to: { type: 'integer', description: 'Number of the related card' },
+          label: { type: 'string', description: '1-3 word relationship, e.g. "builds on", "contradicts", "same author"' },
+        },
+        required: ['from', 'to', 'label'],
+        additionalProperties: false,
+      },
+    },
+    clusters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Short topic name' },
+          cards: { type: 'array', items: { type: 'integer' }, description: 'Numbers of the cards in this topic' },
+        },
+        required: ['name', 'cards'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['edges', 'clusters'],
+  additionalProperties: false,
+};
+
+const RELATIONSHIP_PROMPT = 'The context lists numbered cards from a research canvas. Find the meaningful relationships between cards ' +
+  'and group the cards into topic clusters.\n' +
+  'Respond with a single JSON object with these fields:\n' +
+  '- "edges": up to 2 relationships per card, each with "from" and "to" card numbers and a 1-3 word "label" such as "builds on", "contradicts" or "same topic". Only include clear relationships\n' +
+  '- "clusters": 2-8 topics, each with a short "name" and the "cards" numbers in it. Every card belongs to at most one cluster\n' +
+  'Do not wrap the JSON in Markdown code fences.';
+
+const MAX_CARD_CONTEXT = 300; // characters of each card's text sent to the provider
+const MAX_OUTPUT_TOKENS = 3000;
+
+/**
+ * A card to relate, identified by its canvas node id
+ */
+export interface RelatableCard {
+  nodeId: string;
+  text: string;
+}
+
+/**
+ * Ask the provider chain for relationships and topic clusters between cards, re-asking once when the JSON is malformed
+ * @throws StructuredOutputError when no attempt yields valid output; provider errors propagate unchanged
+ */
+export async function suggestRelationships(
+  provider: FallbackProvider,
+  cards: RelatableCard[],
+  maxAttempts = 2
+): Promise<{ suggestions: RelationshipSuggestions; provider: AIProviderType }> {
+  const context = cards
+    .map((card, index) => `[${index + 1}] ${card.text.replace(/\s+/g, ' ').substring(0, MAX_CARD_CONTEXT)}`)
+    .join('\n');
+  let instructions = RELATIONSHIP_PROMPT;
+  let lastError = 'no attempts made';
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const result = await provider.generateJsonWithSource(instructions, context, RELATIONSHIP_SCHEMA, MAX_OUTPUT_TOKENS);
+    try {
+      return { suggestions: parseRelationshipSuggestions(result.text, cards), provider: result.provider };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.warn(`Relationship suggestions invalid (attempt ${attempt + 1}/${maxAttempts}): ${lastError}`);
+      instructions = `${RELATIONSHIP_PROMPT}\n\nYour previous answer was invalid (${lastError}). Return only the JSON object.`;
+    }
+  }
+
+  throw new StructuredOutputError(`Model did not return valid relationships: ${lastError}`);
+}
+
+/**
+ * Parse model output into node-id based suggestions, dropping unknown card numbers,
+ * self-links, duplicate pairs, repeated cluster members and clusters with fewer than two cards
+ * @throws StructuredOutputError if the output is not usable
+ */
+export function parseRelationshipSuggestions(raw: string, cards: RelatableCard[]): RelationshipSuggestions {
+  let value: unknown;
+  try {
+    value = JSON.parse(repairJson(raw));
+  } catch {
+    throw new StructuredOutputError('response is not valid JSON');
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new StructuredOutputError('response is not a JSON object');
+  }
+  const data = value as Record<string, unknown>;
+  if (!Array.isArray(data.edges) && !Array.isArray(data.clusters)) {
+    throw new StructuredOutputError('"edges" and "clusters" are missing');
+  }
+
+  const cardAt = (n: unknown): string | null => {
+    const index = Number(n) - 1;
+    return Number.isInteger(index) && index >= 0 && index < cards.length ? cards[index].nodeId : null;
+  };
+
+  const edges: SuggestedEdge[] = [];
+  const pairs = new Set<string>();
+  for (const item of asObjects(data.edges)) {
+    const fromId = cardAt(item.from);
+    const toId = cardAt(item.to);
+    const label = typeof item.label === 'string' ? item.label.trim() : '';
+    if (!fromId || !toId || fromId === toId || !label) continue;
+
+    const pair = [fromId, toId].sort().join('|');
+    if (pairs.has(pair)) continue;
+    pairs.add(pair);
+    edges.push({ fromId, toId, label });
+  }
+
+  const clusters: SuggestedCluster[] = [];
+  const assigned = new Set<string>();
+  for (const item of asObjects(data.clusters)) {
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    const nodeIds = (Array.isArray(item.cards) ? item.cards : [])
+      .map(cardAt)
+      .filter((id): id is string => !!id && !assigned.has(id));
+    const unique = [...new Set(nodeIds)];
+    if (!name || unique.length < 2) continue;
+
+    unique.forEach(id => assigned.add(id));
+    clusters.push({ name, nodeIds: unique });
+  }
+
+  return { edges, clusters };
+}
+
+function asObjects(value: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item));
+}
@@ -0,0 +1,182 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { RETRY_BASE_DELAY, RETRY_MAX_DELAY } from '../constants';
+
+/**
+ * Retry behaviour for provider requests
+ */
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  attemptTimeoutMs?: number; // limit for one attempt; a timed-out attempt is retried like a network failure
+}
+
+/**
+ * HTTP error from an AI provider, classified as retryable (429, 5xx, network) or not (400, 401, ...)
+ */
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Send a request, retrying 429/5xx responses and network failures with jittered exponential backoff.
+ * Rate-limit headers (Retry-After, OpenAI x-ratelimit-reset-*, Anthropic anthropic-ratelimit-*-reset)
+ * take precedence over the computed backoff.
+ * @param params - Request parameters (throw is forced to false)
+ * @param options - Attempt limit and delay bounds
+ * @param label - Provider name used in error messages
+ * @returns The first 2xx response
+ * @throws ProviderHttpError once attempts run out or on a non-retryable status
+ */
+export async function requestWithRetry(
+  params: RequestUrlParam,
+  options: RetryOptions,
+  label: string
+): Promise<RequestUrlResponse> {
+  const maxAttempts = Math.max(1, options.maxAttempts);
+  let lastError: ProviderHttpError | null = null;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    let hintMs: number | null = null;
+
+    try {
+      // requestUrl can't be cancelled: a timed-out request is abandoned, not stopped
+      const response = await withAttemptTimeout(requestUrl({ ...params, throw: false }), options.attemptTimeoutMs, label);
+      if (response.status >= 200 && response.status < 300) {
+        return response;
+      }
+
+      const retryable = isRetryableStatus(response.status);
+      lastError = new ProviderHttpError(
+        `${label} request failed with status ${response.status}: ${response.text}`,
+        response.status,
+        retryable
+      );
+      if (!retryable) throw lastError;
+
+      hintMs = parseRateLimitDelay(response.headers);
+    } catch (error) {
+      if (error instanceof ProviderHttpError) throw error;
+      // requestUrl rejects on DNS/connection failures
+      const message = error instanceof Error ? error.message : String(error);
+      lastError = new ProviderHttpError(`${label} request failed: ${message}`, null, true);
+    }
+
+    if (attempt < maxAttempts - 1) {
+      await waitBeforeRetry(attempt, hintMs, options, label);
+    }
+  }
+
+  throw lastError ?? new ProviderHttpError(`${label} request failed`, null, true);
+}
+
+/**
+ * Wait before the next attempt: as long as the server asked for, otherwise a jittered exponential backoff
+ * @param attempt - Zero-based number of the attempt that just failed
+ * @param hintMs - Delay requested by rate-limit headers, if any
+ */
+export async function waitBeforeRetry(attempt: number, hintMs: number | null, options: RetryOptions, label: string): Promise<void> {
+  const delay = hintMs ?? backoffDelay(attempt, options);
+  console.debug(`${label} request failed (attempt ${attempt + 1}/${options.maxAttempts}), retrying in ${delay}ms`);
+  await sleep(Math.min(delay, options.maxDelayMs ?? RETRY_MAX_DELAY));
+}
+
+/**
+ * Reject when one attempt takes longer than its time limit
+ * @param timeoutMs - Time limit, or undefined for none
+ */
+function withAttemptTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, label: string): Promise<T> {
+  if (!timeoutMs) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`${label} request timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+/**
+ * Full-jitter exponential backoff: random delay in [0, base * 2^attempt]
+ */
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  const base = options.baseDelayMs ?? RETRY_BASE_DELAY;
+  const cap = options.maxDelayMs ?? RETRY_MAX_DELAY;
+  return Math.round(Math.random() * Math.min(cap, base * 2 ** attempt));
+}
+
+/**
+ * Read the server's requested wait time from rate-limit headers
+ * @returns Delay in milliseconds, or null if no usable header is present
+ */
+export function parseRateLimitDelay(headers: Record<string, string>): number | null {
+  const lower: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    lower[key.toLowerCase()] = value;
+  }
+
+  // OpenAI sends retry-after-ms alongside retry-after
+  const retryAfterMs = Number(lower['retry-after-ms']);
+  if (!isNaN(retryAfterMs) && retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = lower['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // OpenAI / Groq: durations such as "1s", "6m0s", "250ms"
+  const openAiReset = lower['x-ratelimit-reset-requests'] ?? lower['x-ratelimit-reset-tokens'];
+  if (openAiReset) {
+    const ms = parseDuration(openAiReset);
+    if (ms !== null) return ms;
+  }
+
+  // Anthropic: RFC 3339 timestamps
+  const anthropicReset = lower['anthropic-ratelimit-requests-reset'] ?? lower['anthropic-ratelimit-tokens-reset'];
+  if (anthropicReset) {
+    const date = Date.parse(anthropicReset);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+function parseDuration(value: string): number | null {
+  const re = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = false;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(value)) !== null) {
+    matched = true;
+    const amount = parseFloat(match[1]);
+    switch (match[2]) {
+      case 'h': total += amount * 3600000; break;
+      case 'm': total += amount * 60000; break;
+      case 's': total += amount * 1000; break;
+      case 'ms': total += amount; break;
+    }
+  }
+  return matched ? Math.round(total) : null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,74 @@
+import { LinkHealth, LinkHealthState, RunOutcome, RunReportItem } from '../types';
+import { archiveUrl } from './link-checker';
+
+const SECTIONS: Array<{ outcome: RunOutcome; heading: string }> = [
+  { outcome: 'failed', heading: 'Failed' },
+  { outcome: 'enriched', heading: 'Enriched' },
+  { outcome: 'skipped', heading: 'Skipped' },
+];
+
+const HEALTH_SECTIONS: Array<{ state: Exclude<LinkHealthState, 'ok'>; heading: string }> = [
+  { state: 'not-found', heading: 'Dead links' },
+  { state: 'parked', heading: 'Parked domains' },
+  { state: 'redirected', heading: 'Moved to another site' },
+  { state: 'unreachable', heading: 'Unreachable' },
+];
+
+/**
+ * Markdown report of a vault-wide enrichment run: totals, then failures, successes and skipped cards
+ * @param scope - What was scanned, e.g. "Entire vault" or a folder path
+ * @param startedAt - Run start time in milliseconds
+ */
+export function buildRunReport(scope: string, items: RunReportItem[], canvasCount: number, startedAt: number): string {
+  const count = (outcome: RunOutcome) => items.filter(item => item.outcome === outcome).length;
+  const minutes = Math.max(1, Math.round((Date.now() - startedAt) / 60000));
+
+  const lines = [
+    `Scope: ${scope}`,
+    `Canvases scanned: ${canvasCount}`,
+    `Duration: about ${minutes} min`,
+    '',
+    `**${count('enriched')} enriched, ${count('failed')} failed, ${count('skipped')} skipped**`,
+  ];
+
+  for (const { outcome, heading } of SECTIONS) {
+    const section = items.filter(item => item.outcome === outcome);
+    if (section.length === 0) continue;
+
+    lines.push('', `## ${heading} (${section.length})`, '');
+    for (const item of section) {
+      const reason = item.reason ? ` — ${item.reason.replace(/\s+/g, ' ')}` : '';
+      lines.push(`- [[${item.canvasPath}]] · <${item.target}>${reason}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Markdown list of broken links by problem, each with its canvas and a web archive lookup
+ * @param results - Health of every checked link card, with its canvas
+ * @param canvasCount - Number of canvases scanned
+ */
+export function buildBrokenLinksReport(results: Array<{ canvasPath: string; health: LinkHealth }>, canvasCount: number): string {
+  const broken = results.filter(result => result.health.state !== 'ok');
+  const lines = [
+    `Checked ${results.length} link cards in ${canvasCount} canvases on ${new Date().toLocaleString()}`,
+    '',
+    `**${broken.length} broken links**`,
+  ];
+
+  for (const { state, heading } of HEALTH_SECTIONS) {
+    const section = broken.filter(result => result.health.state === state);
+    if (section.length === 0) continue;
+
+    lines.push('', `## ${heading} (${section.length})`, '');
+    for (const { canvasPath, health } of section) {
+      const detail = health.detail ? ` — ${health.detail}` : '';
+      const movedTo = health.movedTo ? ` · [new location](${health.movedTo})` : '';
+      lines.push(`- [[${canvasPath}]] · <${health.url}>${detail}${movedTo} · [web archive](${archiveUrl(health.url)})`);
+    }
+  }
+
+  return lines.join('\n');
+}
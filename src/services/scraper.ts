@@ -1,9 +1,13 @@
 import { requestUrl } from 'obsidian';
 import { UrlMetadata } from '../types';
+import { extractMainContent, truncateAtParagraph } from './content-extractor';
+import { extractPdf, isPdfResponse } from './pdf-extractor';
+import { SiteExtractorRegistry, createSiteExtractorRegistry } from './site-extractors';
 
 export class ScraperService {
-  private static readonly TWITTER_HOSTS = ['twitter.com', 'www.twitter.com', 'x.com', 'www.x.com'];
-  private static readonly TWITTER_STATUS_RE = /\/([^/]+)\/status\/(\d+)/;
+  private static readonly MAX_TEXT_LENGTH = 10000; // reasonable for AI processing
+
+  constructor(private siteExtractors: SiteExtractorRegistry = createSiteExtractorRegistry()) {}
 
   /**
    * Scrape metadata and content from a URL
@@ -12,10 +16,10 @@ export class ScraperService {
    */
   async scrape(url: string): Promise<UrlMetadata> {
     try {
-      // Use fxtwitter API for X/Twitter URLs
-      const host = new URL(url).hostname.toLowerCase();
-      if (ScraperService.TWITTER_HOSTS.includes(host)) {
-        return await this.scrapeTwitter(url);
+      // Sites with an API (YouTube, GitHub, Reddit, ...) go through their extractor
+      const extracted = await this.scrapeWithSiteExtractor(url);
+      if (extracted) {
+        return extracted;
       }
 
       // Fetch URL using Obsidian's requestUrl API (bypasses CORS)
@@ -30,6 +34,11 @@ export class ScraperService {
         return this.createEmptyMetadata(url);
       }
 
+      // PDFs are binary: read them with PDF.js instead of parsing as HTML
+      if (isPdfResponse(response.headers, response.arrayBuffer)) {
+        return await this.scrapePdf(url, response.arrayBuffer);
+      }
+
       // Parse HTML with DOMParser
       const parser = new DOMParser();
       const doc = parser.parseFromString(response.text, 'text/html');
@@ -62,68 +71,64 @@ export class ScraperService {
   }
 
   /**
-   * Scrape X/Twitter URLs via fxtwitter JSON API
+   * Scrape through the matching site extractor, if any
+   * @returns Extracted metadata, or null to fall back to generic HTML scraping
    */
-  private async scrapeTwitter(originalUrl: string): Promise<UrlMetadata> {
-    const match = originalUrl.match(ScraperService.TWITTER_STATUS_RE);
-    if (!match) {
-      return this.createEmptyMetadata(originalUrl);
+  private async scrapeWithSiteExtractor(url: string): Promise<UrlMetadata | null> {
+    const extractor = this.siteExtractors.find(url);
+    if (!extractor) {
+      return null;
     }
 
-    const [, screenName, tweetId] = match;
-    const apiUrl = `https://api.fxtwitter.com/${screenName}/status/${tweetId}`;
-
     try {
-      const response = await requestUrl({
-        url: apiUrl,
-        method: 'GET',
-        headers: { 'User-Agent': 'DetailedCanvas-ObsidianPlugin/1.0' },
-        throw: false,
+      return await extractor.extract(url, {
+        maxTextLength: ScraperService.MAX_TEXT_LENGTH,
+        validateImageUrl: imageUrl => this.validateImageUrl(imageUrl),
       });
+    } catch (error) {
+      console.warn(`${extractor.name} extractor failed for ${url}, using generic scraping:`, error);
+      return null;
+    }
+  }
 
-      if (response.status !== 200) {
-        console.warn(`fxtwitter API returned ${response.status} for ${originalUrl}`);
-        return this.createEmptyMetadata(originalUrl);
-      }
+  /**
+   * Build metadata from a PDF's document info and first pages
+   */
+  private async scrapePdf(url: string, data: ArrayBuffer): Promise<UrlMetadata> {
+    const pdf = await extractPdf(data, ScraperService.MAX_TEXT_LENGTH);
 
-      const data = response.json;
-      const tweet = data?.tweet;
-      if (!tweet) {
-        return this.createEmptyMetadata(originalUrl);
-      }
+    // Without a usable Title entry, the file name is usually more telling than the first line
+    const fileName = this.pdfFileName(url);
+    const firstParagraph = pdf.text.split('\n\n').find(block => block.length >= 80) ?? null;
 
-      // Extract best available image: photo > video thumbnail > external card > avatar
-      let ogImage: string | null = null;
-      if (tweet.media?.photos?.length > 0) {
-        ogImage = tweet.media.photos[0].url ?? null;
-      } else if (tweet.media?.videos?.length > 0) {
-        ogImage = tweet.media.videos[0].thumbnail_url ?? null;
-      } else if (tweet.media?.external?.thumbnail_url) {
-        ogImage = tweet.media.external.thumbnail_url;
-      }
-      // Fall back to author avatar if no media images
-      if (!ogImage && tweet.author?.avatar_url) {
-        ogImage = tweet.author.avatar_url;
-      }
+    const details: Record<string, string> = { format: 'PDF', pages: String(pdf.pageCount) };
+    if (pdf.author) details.author = pdf.author;
 
-      // Validate image accessibility
-      if (ogImage) {
-        ogImage = await this.validateImageUrl(ogImage);
-      }
+    return {
+      url,
+      title: pdf.title ?? (fileName || null),
+      description: firstParagraph ? truncateAtParagraph(firstParagraph.replace(/\s+/g, ' '), 300) : null,
+      ogImage: null,
+      siteName: null,
+      favicon: null,
+      textContent: pdf.text,
+      details,
+    };
+  }
 
-      return {
-        url: originalUrl,
-        title: `${tweet.author?.name ?? screenName} (@${tweet.author?.screen_name ?? screenName})`,
-        description: tweet.text ?? null,
-        ogImage,
-        siteName: 'X (Twitter)',
-        favicon: tweet.author?.avatar_url ?? null,
-        textContent: tweet.text ?? '',
-      };
-    } catch (error) {
-      console.warn(`fxtwitter scrape failed for ${originalUrl}:`, error);
-      return this.createEmptyMetadata(originalUrl);
+  /**
+   * File name of a PDF URL without the extension, decoded where the URL's escapes allow it
+   */
+  private pdfFileName(url: string): string {
+    const segment = new URL(url).pathname.split('/').pop() ?? '';
+    let name: string;
+    try {
+      name = decodeURIComponent(segment);
+    } catch {
+      // A stray % that is not an escape
+      name = segment;
     }
+    return name.replace(/\.pdf$/i, '');
   }
 
   /**
@@ -203,52 +208,10 @@ export class ScraperService {
   }
 
   /**
-   * Extract text content from body, strip scripts/styles, limit length
+   * Extract the main article text, keeping headings and paragraph breaks
    */
   private extractTextContent(doc: Document): string {
-    const body = doc.querySelector('body');
-    if (!body) {
-      return '';
-    }
-
-    // Clone body to avoid modifying original
-    const bodyClone = body.cloneNode(true) as HTMLElement;
-
-    // Remove script, style, and other non-content elements
-    const selectorsToRemove = [
-      'script',
-      'style',
-      'noscript',
-      'iframe',
-      'nav',
-      'header',
-      'footer',
-      'aside',
-      '[role="navigation"]',
-      '[role="banner"]',
-      '[role="contentinfo"]',
-    ];
-
-    selectorsToRemove.forEach(selector => {
-      bodyClone.querySelectorAll(selector).forEach(el => el.remove());
-    });
-
-    // Get text content
-    let text = bodyClone.textContent || '';
-
-    // Clean up whitespace
-    text = text
-      .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-      .replace(/\n\s*\n/g, '\n') // Remove blank lines
-      .trim();
-
-    // Limit length to 10000 characters (reasonable for AI processing)
-    const maxLength = 10000;
-    if (text.length > maxLength) {
-      text = text.substring(0, maxLength) + '...';
-    }
-
-    return text;
+    return extractMainContent(doc, ScraperService.MAX_TEXT_LENGTH);
   }
 
   /**
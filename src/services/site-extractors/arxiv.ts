@@ -0,0 +1,70 @@
+import { SiteExtractor } from '../../types';
+import { collapseWhitespace, fetchText } from './http';
+
+// /abs/2401.01234v2, /pdf/2401.01234.pdf, /html/2401.01234, and old-style ids like /abs/hep-th/9901001
+const PAPER_ID_RE = /^\/(?:abs|pdf|html)\/(.+?)(?:\.pdf)?\/?$/;
+const MAX_LISTED_AUTHORS = 6;
+
+/**
+ * arXiv papers via the export API: title, authors, abstract and categories.
+ * PDF links resolve to the same paper record.
+ */
+export const arxivExtractor: SiteExtractor = {
+  name: 'arXiv',
+  hostPatterns: ['arxiv.org'],
+
+  async extract(url, context) {
+    const paperId = new URL(url).pathname.match(PAPER_ID_RE)?.[1];
+    if (!paperId) return null;
+
+    const xml = await fetchText(`https://export.arxiv.org/api/query?id_list=${encodeURIComponent(paperId)}`);
+    if (!xml) return null;
+
+    const doc = new DOMParser().parseFromString(xml, 'text/xml');
+    const entry = doc.getElementsByTagName('entry')[0];
+    // Unknown ids come back as an entry titled "Error"
+    const title = collapseWhitespace(childText(entry, 'title'));
+    if (!entry || !title || title === 'Error') return null;
+
+    const abstract = collapseWhitespace(childText(entry, 'summary'));
+    const authors = Array.from(entry.getElementsByTagName('author'))
+      .map(author => collapseWhitespace(childText(author, 'name')))
+      .filter(name => name.length > 0);
+    const categories = Array.from(entry.getElementsByTagName('category'))
+      .map(category => category.getAttribute('term') ?? '')
+      .filter(term => term.length > 0);
+    const published = childText(entry, 'published').slice(0, 10);
+    const comment = collapseWhitespace(childText(entry, 'arxiv:comment'));
+
+    const listedAuthors = authors.length > MAX_LISTED_AUTHORS
+      ? `${authors.slice(0, MAX_LISTED_AUTHORS).join(', ')} et al.`
+      : authors.join(', ');
+
+    const sections = [];
+    if (authors.length > 0) sections.push(`Authors: ${authors.join(', ')}`);
+    if (categories.length > 0) sections.push(`Categories: ${categories.join(', ')}`);
+    if (comment) sections.push(`Comments: ${comment}`);
+    sections.push(`## Abstract\n\n${abstract}`);
+
+    const details: Record<string, string> = {};
+    if (listedAuthors) details.authors = listedAuthors;
+    if (published) details.published = published;
+    if (categories.length > 0) details.category = categories[0];
+
+    return {
+      url,
+      title,
+      description: abstract || null,
+      ogImage: null,
+      siteName: 'arXiv',
+      favicon: 'https://arxiv.org/favicon.ico',
+      textContent: sections.join('\n\n').substring(0, context.maxTextLength),
+      details,
+    };
+  },
+};
+
+// Text of the first direct or nested child element with the given tag name
+function childText(parent: Element | undefined, tagName: string): string {
+  return parent?.getElementsByTagName(tagName)[0]?.textContent ?? '';
+}
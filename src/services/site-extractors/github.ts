@@ -0,0 +1,75 @@
+import { SiteExtractor } from '../../types';
+import { truncateAtParagraph } from '../content-extractor';
+import { fetchJson, fetchText, formatCount } from './http';
+
+// First path segments that are GitHub pages rather than owners
+const RESERVED_OWNERS = new Set([
+  'about', 'apps', 'collections', 'enterprise', 'events', 'explore', 'features', 'login', 'marketplace',
+  'new', 'notifications', 'orgs', 'pricing', 'pulls', 'search', 'settings', 'sponsors', 'topics', 'trending',
+]);
+
+interface RepoResponse {
+  full_name: string;
+  description: string | null;
+  stargazers_count: number;
+  forks_count: number;
+  language: string | null;
+  topics?: string[];
+  license: { spdx_id?: string } | null;
+  pushed_at?: string;
+  owner?: { avatar_url?: string };
+}
+
+/**
+ * GitHub repositories via the REST API: description, stars, language, topics and the README.
+ * Any page inside a repo (issues, files) is summarized as the repo.
+ */
+export const githubExtractor: SiteExtractor = {
+  name: 'GitHub',
+  hostPatterns: ['github.com'],
+
+  async extract(url, context) {
+    const parsed = new URL(url);
+    // The host pattern also matches gist.github.com, docs.github.com, ...
+    if (parsed.hostname !== 'github.com' && parsed.hostname !== 'www.github.com') return null;
+
+    const [owner, name] = parsed.pathname.split('/').filter(Boolean);
+    if (!owner || !name || RESERVED_OWNERS.has(owner.toLowerCase())) return null;
+    const repoName = name.replace(/\.git$/, '');
+
+    const apiBase = `https://api.github.com/repos/${owner}/${repoName}`;
+    // Unauthenticated requests are rate limited; a null here falls back to HTML scraping
+    const repo = await fetchJson<RepoResponse>(apiBase, { Accept: 'application/vnd.github+json' });
+    if (!repo) return null;
+
+    const readme = await fetchText(`${apiBase}/readme`, { Accept: 'application/vnd.github.raw' }).catch(() => null);
+    const topics = repo.topics ?? [];
+    const sections = [];
+    if (repo.description) sections.push(repo.description);
+    if (topics.length > 0) sections.push(`Topics: ${topics.join(', ')}`);
+    if (readme) sections.push(`## README\n\n${readme.trim()}`);
+
+    const details: Record<string, string> = { stars: formatCount(repo.stargazers_count) };
+    if (repo.language) details.language = repo.language;
+    details.forks = formatCount(repo.forks_count);
+    if (repo.license?.spdx_id && repo.license.spdx_id !== 'NOASSERTION') details.license = repo.license.spdx_id;
+    if (topics.length > 0) details.topics = topics.slice(0, 5).join(', ');
+    if (repo.pushed_at) details.updated = repo.pushed_at.slice(0, 10);
+
+    // GitHub renders a social card per repo; fall back to the owner's avatar
+    const ogImage = await context.validateImageUrl(`https://opengraph.githubassets.com/1/${repo.full_name}`)
+      ?? repo.owner?.avatar_url
+      ?? null;
+
+    return {
+      url,
+      title: repo.full_name,
+      description: repo.description,
+      ogImage,
+      siteName: 'GitHub',
+      favicon: 'https://github.com/favicon.ico',
+      textContent: truncateAtParagraph(sections.join('\n\n'), context.maxTextLength),
+      details,
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import { requestUrl } from 'obsidian';
+
+export const USER_AGENT = 'DetailedCanvas-ObsidianPlugin/1.0';
+
+/**
+ * GET a JSON API endpoint
+ * @returns Parsed body, or null on a non-200 response
+ */
+export async function fetchJson<T>(url: string, headers: Record<string, string> = {}): Promise<T | null> {
+  const response = await requestUrl({
+    url,
+    method: 'GET',
+    headers: { 'User-Agent': USER_AGENT, ...headers },
+    throw: false,
+  });
+
+  if (response.status !== 200) {
+    console.warn(`${url} returned HTTP ${response.status}`);
+    return null;
+  }
+  return response.json as T;
+}
+
+/**
+ * GET a text or HTML resource
+ * @returns Body text, or null on a non-200 response
+ */
+export async function fetchText(url: string, headers: Record<string, string> = {}): Promise<string | null> {
+  const response = await requestUrl({
+    url,
+    method: 'GET',
+    headers: { 'User-Agent': USER_AGENT, ...headers },
+    throw: false,
+  });
+
+  if (response.status !== 200) {
+    console.warn(`${url} returned HTTP ${response.status}`);
+    return null;
+  }
+  return response.text;
+}
+
+/**
+ * Collapse runs of whitespace, as found in XML and API text fields
+ */
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Format a count for display, e.g. 12345 -> "12,345"
+ */
+export function formatCount(value: number): string {
+  return value.toLocaleString('en-US');
+}
@@ -0,0 +1,51 @@
+import { SiteExtractor } from '../../types';
+import { matchesHost } from '../prompt-profiles';
+import { arxivExtractor } from './arxiv';
+import { githubExtractor } from './github';
+import { redditExtractor } from './reddit';
+import { twitterExtractor } from './twitter';
+import { wikipediaExtractor } from './wikipedia';
+import { youtubeExtractor } from './youtube';
+
+/**
+ * Maps hosts to site extractors. The first registered extractor whose pattern matches wins.
+ */
+export class SiteExtractorRegistry {
+  private extractors: SiteExtractor[] = [];
+
+  register(extractor: SiteExtractor): void {
+    this.extractors.push(extractor);
+  }
+
+  /**
+   * Find the extractor for a URL
+   * @returns The extractor, or null if the generic scraper should handle the URL
+   */
+  find(url: string): SiteExtractor | null {
+    let host: string;
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      return null;
+    }
+    return this.extractors.find(extractor => extractor.hostPatterns.some(pattern => matchesHost(pattern, host))) ?? null;
+  }
+}
+
+/**
+ * Registry with the built-in extractors
+ */
+export function createSiteExtractorRegistry(): SiteExtractorRegistry {
+  const registry = new SiteExtractorRegistry();
+  for (const extractor of [
+    twitterExtractor,
+    youtubeExtractor,
+    githubExtractor,
+    redditExtractor,
+    arxivExtractor,
+    wikipediaExtractor,
+  ]) {
+    registry.register(extractor);
+  }
+  return registry;
+}
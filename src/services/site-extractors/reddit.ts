@@ -0,0 +1,85 @@
+import { SiteExtractor } from '../../types';
+import { truncateAtParagraph } from '../content-extractor';
+import { fetchJson, formatCount } from './http';
+
+const POST_ID_RE = /\/comments\/(\w+)/;
+const MAX_COMMENTS = 5;
+
+interface Listing<T> {
+  data?: { children?: { kind: string; data: T }[] };
+}
+
+interface RedditPost {
+  title: string;
+  selftext?: string;
+  subreddit_name_prefixed?: string;
+  author?: string;
+  score?: number;
+  num_comments?: number;
+  created_utc?: number;
+  url?: string;
+  is_self?: boolean;
+  preview?: { images?: { source?: { url?: string } }[] };
+}
+
+interface RedditComment {
+  body?: string;
+  author?: string;
+  score?: number;
+}
+
+/**
+ * Reddit posts via the public .json endpoint (the site is rendered client-side):
+ * post text, subreddit, score and the top comments
+ */
+export const redditExtractor: SiteExtractor = {
+  name: 'Reddit',
+  hostPatterns: ['reddit.com', 'redd.it'],
+
+  async extract(url, context) {
+    const parsed = new URL(url);
+    // redd.it short links carry the post id; i.redd.it and v.redd.it are media files
+    const postId = parsed.hostname === 'redd.it'
+      ? parsed.pathname.split('/')[1]
+      : parsed.pathname.match(POST_ID_RE)?.[1];
+    if (!postId) return null;
+
+    // raw_json=1 returns text without HTML-escaping
+    const data = await fetchJson<[Listing<RedditPost>, Listing<RedditComment>]>(
+      `https://www.reddit.com/comments/${postId}/.json?raw_json=1&sort=top&limit=${MAX_COMMENTS * 2}`
+    );
+    const post = data?.[0]?.data?.children?.[0]?.data;
+    if (!post?.title) return null;
+
+    const comments = (data?.[1]?.data?.children ?? [])
+      .filter(child => child.kind === 't1' && child.data.body && child.data.author !== 'AutoModerator')
+      .slice(0, MAX_COMMENTS)
+      .map(child => `- ${child.data.body?.trim()} (${formatCount(child.data.score ?? 0)} points)`);
+
+    const body = post.selftext?.trim() ?? '';
+    const sections = [];
+    if (body) sections.push(body);
+    if (!post.is_self && post.url) sections.push(`Link: ${post.url}`);
+    if (comments.length > 0) sections.push(`## Top comments\n\n${comments.join('\n')}`);
+
+    const details: Record<string, string> = {};
+    if (post.subreddit_name_prefixed) details.subreddit = post.subreddit_name_prefixed;
+    if (post.author) details.author = `u/${post.author}`;
+    details.score = formatCount(post.score ?? 0);
+    details.comments = formatCount(post.num_comments ?? 0);
+    if (post.created_utc) details.posted = new Date(post.created_utc * 1000).toISOString().slice(0, 10);
+
+    const preview = post.preview?.images?.[0]?.source?.url;
+
+    return {
+      url,
+      title: post.title,
+      description: body ? truncateAtParagraph(body, 300) : null,
+      ogImage: preview ? await context.validateImageUrl(preview) : null,
+      siteName: post.subreddit_name_prefixed ? `Reddit ${post.subreddit_name_prefixed}` : 'Reddit',
+      favicon: 'https://www.reddit.com/favicon.ico',
+      textContent: truncateAtParagraph(sections.join('\n\n'), context.maxTextLength),
+      details,
+    };
+  },
+};
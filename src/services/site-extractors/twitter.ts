@@ -0,0 +1,56 @@
+import { SiteExtractor } from '../../types';
+import { fetchJson } from './http';
+
+const STATUS_RE = /\/([^/]+)\/status\/(\d+)/;
+
+interface FxTwitterResponse {
+  tweet?: {
+    text?: string;
+    author?: { name?: string; screen_name?: string; avatar_url?: string };
+    media?: {
+      photos?: { url?: string }[];
+      videos?: { thumbnail_url?: string }[];
+      external?: { thumbnail_url?: string };
+    };
+  };
+}
+
+/**
+ * X/Twitter posts via the fxtwitter JSON API (the site itself requires login)
+ */
+export const twitterExtractor: SiteExtractor = {
+  name: 'X (Twitter)',
+  hostPatterns: ['twitter.com', 'x.com'],
+
+  async extract(url, context) {
+    const match = url.match(STATUS_RE);
+    if (!match) return null;
+
+    const [, screenName, tweetId] = match;
+    const data = await fetchJson<FxTwitterResponse>(`https://api.fxtwitter.com/${screenName}/status/${tweetId}`);
+    const tweet = data?.tweet;
+    if (!tweet) return null;
+
+    // Extract best available image: photo > video thumbnail > external card > avatar
+    let ogImage = tweet.media?.photos?.[0]?.url
+      ?? tweet.media?.videos?.[0]?.thumbnail_url
+      ?? tweet.media?.external?.thumbnail_url
+      ?? tweet.author?.avatar_url
+      ?? null;
+
+    // Validate image accessibility
+    if (ogImage) {
+      ogImage = await context.validateImageUrl(ogImage);
+    }
+
+    return {
+      url,
+      title: `${tweet.author?.name ?? screenName} (@${tweet.author?.screen_name ?? screenName})`,
+      description: tweet.text ?? null,
+      ogImage,
+      siteName: 'X (Twitter)',
+      favicon: tweet.author?.avatar_url ?? null,
+      textContent: tweet.text ?? '',
+    };
+  },
+};
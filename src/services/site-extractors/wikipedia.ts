@@ -0,0 +1,69 @@
+import { SiteExtractor } from '../../types';
+import { truncateAtParagraph } from '../content-extractor';
+import { fetchJson } from './http';
+
+interface SummaryResponse {
+  type?: string;
+  title?: string;
+  description?: string;
+  extract?: string;
+  thumbnail?: { source?: string };
+  originalimage?: { source?: string };
+  timestamp?: string;
+}
+
+interface ExtractResponse {
+  query?: { pages?: { extract?: string; missing?: boolean }[] };
+}
+
+/**
+ * Wikipedia articles via the REST summary endpoint plus the plain-text article body
+ */
+export const wikipediaExtractor: SiteExtractor = {
+  name: 'Wikipedia',
+  hostPatterns: ['wikipedia.org'],
+
+  async extract(url, context) {
+    const parsed = new URL(url);
+    // en.wikipedia.org and en.m.wikipedia.org; www.wikipedia.org is the portal
+    const lang = parsed.hostname.split('.')[0];
+    const title = parsed.pathname.match(/^\/wiki\/(.+)$/)?.[1];
+    if (!title || lang === 'www' || lang === 'wikipedia') return null;
+
+    const apiHost = `https://${lang}.wikipedia.org`;
+    const pageTitle = decodeURIComponent(title);
+    const summary = await fetchJson<SummaryResponse>(`${apiHost}/api/rest_v1/page/summary/${encodeURIComponent(pageTitle)}`);
+    if (!summary?.title) return null;
+
+    const extract = await fetchJson<ExtractResponse>(
+      `${apiHost}/w/api.php?action=query&prop=extracts&explaintext=1&redirects=1&format=json&formatversion=2&titles=${encodeURIComponent(pageTitle)}`
+    ).catch(() => null);
+    const body = extract?.query?.pages?.[0]?.extract ?? '';
+
+    const details: Record<string, string> = {};
+    if (summary.description) details.about = summary.description;
+    if (summary.type === 'disambiguation') details.page = 'Disambiguation';
+    if (summary.timestamp) details.updated = summary.timestamp.slice(0, 10);
+
+    const image = summary.originalimage?.source ?? summary.thumbnail?.source;
+
+    return {
+      url,
+      title: summary.title,
+      description: summary.extract ?? null,
+      ogImage: image ? await context.validateImageUrl(image) : null,
+      siteName: 'Wikipedia',
+      favicon: `${apiHost}/static/favicon/wikipedia.ico`,
+      textContent: truncateAtParagraph(toMarkdownHeadings(body || summary.extract || ''), context.maxTextLength),
+      details,
+    };
+  },
+};
+
+// Plain-text extracts mark headings as "== Heading =="
+function toMarkdownHeadings(text: string): string {
+  return text
+    .replace(/^(={2,6})\s*(.+?)\s*\1\s*$/gm, (_match, marks: string, heading: string) => `${'#'.repeat(marks.length)} ${heading}`)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
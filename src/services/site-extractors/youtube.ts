@@ -0,0 +1,163 @@
+import { SiteExtractor, UrlMetadata } from '../../types';
+import { truncateAtParagraph } from '../content-extractor';
+import { collapseWhitespace, fetchJson, fetchText, formatCount } from './http';
+
+const VIDEO_ID_RE = /^[\w-]{11}$/;
+const PLAYER_RESPONSE_RE = /ytInitialPlayerResponse\s*=\s*(\{.+?\})\s*;\s*(?:var\s|<\/script>)/s;
+
+interface PlayerResponse {
+  videoDetails?: {
+    title?: string;
+    author?: string;
+    lengthSeconds?: string;
+    shortDescription?: string;
+    viewCount?: string;
+    thumbnail?: { thumbnails?: { url: string }[] };
+  };
+  microformat?: { playerMicroformatRenderer?: { publishDate?: string } };
+  captions?: {
+    playerCaptionsTracklistRenderer?: {
+      captionTracks?: { baseUrl: string; languageCode?: string; kind?: string }[];
+    };
+  };
+}
+
+interface OEmbedResponse {
+  title?: string;
+  author_name?: string;
+  thumbnail_url?: string;
+}
+
+/**
+ * YouTube videos: title, channel, duration and description from the watch page's
+ * player data, plus the caption transcript when one is published
+ */
+export const youtubeExtractor: SiteExtractor = {
+  name: 'YouTube',
+  hostPatterns: ['youtube.com', 'youtu.be'],
+
+  async extract(url, context) {
+    const videoId = getVideoId(new URL(url));
+    if (!videoId) return null;
+
+    const html = await fetchText(`https://www.youtube.com/watch?v=${videoId}`, { 'Accept-Language': 'en' });
+    const player = html ? parsePlayerResponse(html) : null;
+    const video = player?.videoDetails;
+
+    if (!video?.title) {
+      // Consent walls and bot checks hide the player data; oEmbed still has the basics
+      return fromOEmbed(url, videoId, context.validateImageUrl);
+    }
+
+    const description = video.shortDescription?.trim() ?? '';
+    const transcript = await fetchTranscript(player);
+    const sections = [];
+    if (description) sections.push(`## Description\n\n${description}`);
+    if (transcript) sections.push(`## Transcript\n\n${transcript}`);
+
+    const thumbnails = video.thumbnail?.thumbnails ?? [];
+    const thumbnail = thumbnails[thumbnails.length - 1]?.url ?? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+
+    const details: Record<string, string> = {};
+    if (video.author) details.channel = video.author;
+    const seconds = Number(video.lengthSeconds);
+    if (seconds > 0) details.duration = formatDuration(seconds);
+    const views = Number(video.viewCount);
+    if (views > 0) details.views = formatCount(views);
+    const published = player?.microformat?.playerMicroformatRenderer?.publishDate;
+    if (published) details.published = published.slice(0, 10);
+
+    return {
+      url,
+      title: video.title,
+      description: description ? truncateAtParagraph(description, 500) : null,
+      ogImage: await context.validateImageUrl(thumbnail),
+      siteName: 'YouTube',
+      favicon: 'https://www.youtube.com/favicon.ico',
+      textContent: truncateAtParagraph(sections.join('\n\n'), context.maxTextLength),
+      details,
+    };
+  },
+};
+
+function getVideoId(url: URL): string | null {
+  let candidate: string | null;
+  if (url.hostname.endsWith('youtu.be')) {
+    candidate = url.pathname.split('/')[1] ?? null;
+  } else if (url.pathname === '/watch') {
+    candidate = url.searchParams.get('v');
+  } else {
+    // /shorts/<id>, /embed/<id>, /live/<id>
+    candidate = url.pathname.match(/^\/(?:shorts|embed|live)\/([^/]+)/)?.[1] ?? null;
+  }
+  return candidate && VIDEO_ID_RE.test(candidate) ? candidate : null;
+}
+
+function parsePlayerResponse(html: string): PlayerResponse | null {
+  const match = html.match(PLAYER_RESPONSE_RE);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as PlayerResponse;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the caption track as plain text, preferring English and human-written captions
+ */
+async function fetchTranscript(player: PlayerResponse | null): Promise<string> {
+  const tracks = player?.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [];
+  if (tracks.length === 0) return '';
+
+  const english = tracks.filter(track => track.languageCode?.startsWith('en'));
+  const track = english.find(t => t.kind !== 'asr') ?? english[0] ?? tracks[0];
+
+  try {
+    const xml = await fetchText(track.baseUrl);
+    if (!xml) return '';
+
+    const doc = new DOMParser().parseFromString(xml, 'text/xml');
+    const lines = Array.from(doc.getElementsByTagName('text'))
+      .map(node => decodeEntities(node.textContent ?? ''))
+      .filter(line => line.length > 0);
+    return collapseWhitespace(lines.join(' '));
+  } catch (error) {
+    console.warn('YouTube transcript fetch failed:', error);
+    return '';
+  }
+}
+
+// Caption text is HTML-escaped inside the XML, so entities survive one round of parsing
+function decodeEntities(text: string): string {
+  return new DOMParser().parseFromString(text, 'text/html').documentElement.textContent ?? text;
+}
+
+async function fromOEmbed(
+  url: string,
+  videoId: string,
+  validateImageUrl: (imageUrl: string) => Promise<string | null>
+): Promise<UrlMetadata | null> {
+  const watchUrl = encodeURIComponent(`https://www.youtube.com/watch?v=${videoId}`);
+  const data = await fetchJson<OEmbedResponse>(`https://www.youtube.com/oembed?url=${watchUrl}&format=json`);
+  if (!data?.title) return null;
+
+  return {
+    url,
+    title: data.title,
+    description: null,
+    ogImage: data.thumbnail_url ? await validateImageUrl(data.thumbnail_url) : null,
+    siteName: 'YouTube',
+    favicon: 'https://www.youtube.com/favicon.ico',
+    textContent: '',
+    details: data.author_name ? { channel: data.author_name } : {},
+  };
+}
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
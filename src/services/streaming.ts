@@ -0,0 +1,148 @@
+import { STREAM_UPDATE_INTERVAL } from '../constants';
+import { ProviderHttpError, RetryOptions, isRetryableStatus, parseRateLimitDelay, waitBeforeRetry } from './retry';
+
+/**
+ * POST a JSON body and hand each line of the streamed response to a callback.
+ * requestUrl buffers the whole body, so streaming has to go through fetch.
+ * Opening the stream is retried like requestWithRetry (backoff, rate-limit headers); once lines have
+ * been handed out, a failure is final, since a retry would repeat them. The retry options' attempt timeout
+ * is an idle timeout: it restarts with every chunk received, so a slow model that keeps producing output is never cut off.
+ * @param url - Endpoint URL
+ * @param headers - Request headers
+ * @param body - JSON request body
+ * @param label - Provider name used in error messages
+ * @param retry - Attempt limit, delay bounds and attempt timeout
+ * @param onLine - Called with every non-empty line, in order
+ * @throws ProviderHttpError on network failures, idle timeouts and non-2xx responses
+ */
+export async function streamLines(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  retry: RetryOptions,
+  onLine: (line: string) => void
+): Promise<void> {
+  const maxAttempts = Math.max(1, retry.maxAttempts);
+  const timeoutMs = retry.attemptTimeoutMs;
+  let lastError: ProviderHttpError | null = null;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const restartTimer = () => {
+      if (!timeoutMs) return;
+      if (timer !== null) clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), timeoutMs);
+    };
+    restartTimer();
+    const timedOut = () => new ProviderHttpError(`${label} request timed out after ${(timeoutMs ?? 0) / 1000}s`, null, true);
+    let hintMs: number | null = null;
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw controller.signal.aborted ? timedOut() : new ProviderHttpError(`${label} request failed: ${message}`, null, true);
+      }
+
+      if (!response.ok) {
+        const text = await response.text();
+        const retryable = isRetryableStatus(response.status);
+        const error = new ProviderHttpError(`${label} request failed with status ${response.status}: ${text}`, response.status, retryable);
+        if (!retryable) throw error;
+
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, key) => { responseHeaders[key] = value; });
+        hintMs = parseRateLimitDelay(responseHeaders);
+        throw error;
+      }
+
+      let delivered = false;
+      try {
+        await readLines(response, label, restartTimer, (line) => {
+          delivered = true;
+          onLine(line);
+        });
+        return;
+      } catch (error) {
+        // Once lines have reached the caller, report the failure instead of retrying
+        if (delivered) {
+          if (controller.signal.aborted) {
+            throw new ProviderHttpError(`${label} stream stopped sending data for ${(timeoutMs ?? 0) / 1000}s`, null, false);
+          }
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw controller.signal.aborted ? timedOut() : new ProviderHttpError(`${label} stream failed: ${message}`, null, true);
+      }
+    } catch (error) {
+      if (!(error instanceof ProviderHttpError) || !error.retryable) throw error;
+      lastError = error;
+    } finally {
+      if (timer !== null) clearTimeout(timer);
+    }
+
+    if (attempt < maxAttempts - 1) {
+      await waitBeforeRetry(attempt, hintMs, retry, label);
+    }
+  }
+
+  throw lastError ?? new ProviderHttpError(`${label} request failed`, null, true);
+}
+
+async function readLines(response: Response, label: string, onChunk: () => void, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error(`Invalid response from ${label}: no response body`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk();
+
+    buffer += decoder.decode(value, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+/**
+ * Extract the payload of a server-sent events "data:" line
+ * @returns The payload, or null for other SSE fields (event:, id:, comments)
+ */
+export function parseSseData(line: string): string | null {
+  return line.startsWith('data:') ? line.slice(5).trim() : null;
+}
+
+/**
+ * Wrap a partial-output callback so it runs at most once per STREAM_UPDATE_INTERVAL,
+ * so a card being written is not re-rendered for every token
+ */
+export function throttleStream(onPartial: (text: string) => void): (text: string) => void {
+  let lastUpdate = 0;
+  return (text: string) => {
+    const now = Date.now();
+    if (now - lastUpdate < STREAM_UPDATE_INTERVAL) return;
+    lastUpdate = now;
+    onPartial(text);
+  };
+}
@@ -0,0 +1,141 @@
+import { AIProviderType, ContentType, JsonSchema, StructuredEnrichment } from '../types';
+import { FallbackProvider } from './fallback-provider';
+
+const CONTENT_TYPES: ContentType[] = ['article', 'video', 'repo', 'paper', 'product', 'other'];
+
+export const ENRICHMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Summary of the page, following the instructions' },
+    tags: { type: 'array', items: { type: 'string' }, description: '3-6 short lowercase topic tags, no # prefix' },
+    keyPoints: { type: 'array', items: { type: 'string' }, description: '3-5 key points, one sentence each' },
+    contentType: { type: 'string', enum: CONTENT_TYPES },
+    readingTimeMinutes: { type: 'integer', description: 'Estimated minutes to read or watch the full content' },
+  },
+  required: ['summary', 'tags', 'keyPoints', 'contentType', 'readingTimeMinutes'],
+  additionalProperties: false,
+};
+
+/**
+ * Raised when the model's output cannot be turned into a valid StructuredEnrichment
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Ask the provider chain for a structured enrichment, repairing or re-asking when the JSON is malformed
+ * @param provider - Provider chain to query
+ * @param prompt - Summary instructions (global prompt or profile prompt)
+ * @param context - Page text
+ * @param maxAttempts - Total model calls before giving up
+ * @throws StructuredOutputError when no attempt yields valid output; provider errors propagate unchanged
+ */
+export async function generateStructured(
+  provider: FallbackProvider,
+  prompt: string,
+  context: string,
+  maxAttempts = 2
+): Promise<{ enrichment: StructuredEnrichment; provider: AIProviderType }> {
+  let instructions = buildStructuredPrompt(prompt);
+  let lastError = 'no attempts made';
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const result = await provider.generateJsonWithSource(instructions, context, ENRICHMENT_SCHEMA);
+    try {
+      return { enrichment: parseStructuredEnrichment(result.text), provider: result.provider };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.warn(`Structured output invalid (attempt ${attempt + 1}/${maxAttempts}): ${lastError}`);
+      // Tell the model what was wrong with its previous answer
+      instructions = `${buildStructuredPrompt(prompt)}\n\nYour previous answer was invalid (${lastError}). Return only the JSON object.`;
+    }
+  }
+
+  throw new StructuredOutputError(`Model did not return valid structured output: ${lastError}`);
+}
+
+function buildStructuredPrompt(prompt: string): string {
+  return `${prompt}\n\nRespond with a single JSON object with these fields:\n` +
+    '- "summary": the summary described above\n' +
+    '- "tags": 3-6 short lowercase topic tags without "#"\n' +
+    '- "keyPoints": 3-5 key points, one sentence each\n' +
+    `- "contentType": one of ${CONTENT_TYPES.map(t => `"${t}"`).join(', ')}\n` +
+    '- "readingTimeMinutes": estimated minutes to read or watch the full content, as an integer\n' +
+    'Do not wrap the JSON in Markdown code fences.';
+}
+
+/**
+ * Parse and validate model output, repairing common formatting slips
+ * @throws StructuredOutputError if the output is not usable
+ */
+export function parseStructuredEnrichment(raw: string): StructuredEnrichment {
+  let value: unknown;
+  try {
+    value = JSON.parse(repairJson(raw));
+  } catch {
+    throw new StructuredOutputError('response is not valid JSON');
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new StructuredOutputError('response is not a JSON object');
+  }
+  const data = value as Record<string, unknown>;
+
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  if (!summary) {
+    throw new StructuredOutputError('"summary" is missing or empty');
+  }
+
+  const contentType = typeof data.contentType === 'string' && CONTENT_TYPES.includes(data.contentType.toLowerCase() as ContentType)
+    ? data.contentType.toLowerCase() as ContentType
+    : 'other';
+
+  const minutes = Number(data.readingTimeMinutes);
+
+  return {
+    summary,
+    tags: toStringList(data.tags).map(normalizeTag).filter(tag => tag.length > 0),
+    keyPoints: toStringList(data.keyPoints),
+    contentType,
+    readingTimeMinutes: isFinite(minutes) && minutes > 0 ? Math.round(minutes) : 0,
+  };
+}
+
+/**
+ * Strip code fences and surrounding prose, and drop trailing commas
+ */
+export function repairJson(raw: string): string {
+  let text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    text = text.slice(start, end + 1);
+  }
+
+  return text.replace(/,\s*([}\]])/g, '$1');
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(/[,\n]/).map(s => s.trim()).filter(s => s.length > 0);
+  }
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+    .map(item => String(item).trim())
+    .filter(item => item.length > 0);
+}
+
+// Obsidian tags cannot contain spaces or most punctuation
+function normalizeTag(tag: string): string {
+  return tag
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_/-]/gu, '');
+}
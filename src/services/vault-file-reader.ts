@@ -0,0 +1,93 @@
+import { App, TFile, arrayBufferToBase64 } from 'obsidian';
+import { ImageInput } from '../types';
+import { MAX_IMAGE_BYTES } from '../constants';
+import { truncateAtParagraph } from './content-extractor';
+import { extractPdf } from './pdf-extractor';
+
+// Same budget as scraped web pages
+const MAX_TEXT_LENGTH = 10000;
+
+// Image formats every supported vision API accepts
+const IMAGE_MEDIA_TYPES = new Map([
+  ['png', 'image/png'],
+  ['jpg', 'image/jpeg'],
+  ['jpeg', 'image/jpeg'],
+  ['gif', 'image/gif'],
+  ['webp', 'image/webp'],
+]);
+
+export type VaultFileKind = 'note' | 'pdf' | 'image';
+
+/**
+ * Content of a vault file, ready to summarize
+ */
+export interface VaultFileContent {
+  kind: VaultFileKind;
+  title: string;
+  text: string;
+  image?: ImageInput;
+  details: Record<string, string>;
+}
+
+/**
+ * Classify a vault file by its extension
+ * @returns The kind, or null if the file cannot be summarized
+ */
+export function getVaultFileKind(path: string): VaultFileKind | null {
+  const extension = path.includes('.') ? path.split('.').pop()?.toLowerCase() ?? '' : '';
+  if (extension === 'md') return 'note';
+  if (extension === 'pdf') return 'pdf';
+  if (IMAGE_MEDIA_TYPES.has(extension)) return 'image';
+  return null;
+}
+
+/**
+ * Read a note, PDF or image from the vault
+ * @throws Error if the file type is not supported or the image is too large
+ */
+export async function readVaultFile(app: App, file: TFile): Promise<VaultFileContent> {
+  const kind = getVaultFileKind(file.path);
+
+  if (kind === 'note') {
+    const content = await app.vault.cachedRead(file);
+    const wordCount = content.split(/\s+/).filter(Boolean).length;
+    return {
+      kind,
+      title: file.basename,
+      text: truncateAtParagraph(stripFrontmatter(app, file, content), MAX_TEXT_LENGTH),
+      details: { words: wordCount.toLocaleString('en-US') },
+    };
+  }
+
+  if (kind === 'pdf') {
+    const pdf = await extractPdf(await app.vault.readBinary(file), MAX_TEXT_LENGTH);
+    const details: Record<string, string> = { format: 'PDF', pages: String(pdf.pageCount) };
+    if (pdf.author) details.author = pdf.author;
+    return { kind, title: pdf.title ?? file.basename, text: pdf.text, details };
+  }
+
+  if (kind === 'image') {
+    if (file.stat.size > MAX_IMAGE_BYTES) {
+      throw new Error(`Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+    }
+    const data = arrayBufferToBase64(await app.vault.readBinary(file));
+    return {
+      kind,
+      title: file.basename,
+      text: '',
+      image: { data, mediaType: IMAGE_MEDIA_TYPES.get(file.extension.toLowerCase()) ?? 'image/png' },
+      details: { format: file.extension.toUpperCase() },
+    };
+  }
+
+  throw new Error(`Unsupported file type: .${file.extension}`);
+}
+
+// Properties are metadata, not content; the summary should come from the body
+function stripFrontmatter(app: App, file: TFile, content: string): string {
+  const end = app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset;
+  if (end !== undefined) {
+    return content.slice(end).trim();
+  }
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, '').trim();
+}
@@ -1,7 +1,8 @@
-import { App, PluginSettingTab, Setting, Notice, Plugin, Modal } from 'obsidian';
-import { DetailedCanvasSettings, AIProviderType } from './types';
-import { DEFAULT_SETTINGS, CLAUDE_MODELS } from './constants';
-import { createProvider } from './services/provider-factory';
+import { App, DropdownComponent, PluginSettingTab, Setting, Notice, Plugin, Modal } from 'obsidian';
+import { DetailedCanvasSettings, AIProviderType, CardOutputMode, CardTemplatePreset, EmbeddingProviderType, FileSummaryTarget, OverviewTarget, PromptProfile } from './types';
+import { DEFAULT_SETTINGS, CLAUDE_MODELS, CARD_TEMPLATE_PRESETS, PROVIDER_LABELS } from './constants';
+import { createProviderOfType } from './services/provider-factory';
+import { createProfileId } from './services/prompt-profiles';
 
 interface DetailedCanvasPlugin extends Plugin {
   settings: DetailedCanvasSettings;
@@ -27,12 +28,10 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
       .setName('Provider')
       .setDesc('Choose your AI provider for generating descriptions')
       .addDropdown(dropdown => {
+        for (const [type, label] of Object.entries(PROVIDER_LABELS)) {
+          dropdown.addOption(type, label);
+        }
         dropdown
-          .addOption('ollama', 'Ollama (local)')
-          .addOption('openai', 'OpenAI')
-          .addOption('claude', 'Claude (Anthropic)')
-          .addOption('openrouter', 'OpenRouter')
-          .addOption('groq', 'Groq')
           .setValue(this.plugin.settings.aiProvider)
           .onChange(async (value) => {
             this.plugin.settings.aiProvider = value as AIProviderType;
@@ -42,7 +41,9 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
       });
 
     // Provider-specific settings
-    this.displayProviderSettings(containerEl);
+    this.displayProviderSettings(containerEl, this.plugin.settings.aiProvider);
+
+    this.displayFallbackSettings(containerEl);
 
     // Behavior section
     new Setting(containerEl).setName('Behavior').setHeading();
@@ -57,6 +58,16 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Create linked notes')
+      .setDesc('Write a Markdown note with the summary and extracted text for each enriched link, and link the card to it')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.createNotes)
+        .onChange(async (value) => {
+          this.plugin.settings.createNotes = value;
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Notes folder')
       .setDesc('Folder where generated notes will be stored')
@@ -78,6 +89,26 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Stream descriptions')
+      .setDesc('Show the description on the card as it is being generated. Requests go through the browser, so the provider must allow cross-origin requests from Obsidian.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.streamGeneration)
+        .onChange(async (value) => {
+          this.plugin.settings.streamGeneration = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Structured output')
+      .setDesc('Ask the model for JSON with a summary, tags, key points, content type and reading time, and show those fields on cards and in notes. Uses the provider\'s native JSON or tool mode where available. Streaming is not used in this mode.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.structuredOutput)
+        .onChange(async (value) => {
+          this.plugin.settings.structuredOutput = value;
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Max description length')
       .setDesc('Maximum number of characters for generated descriptions')
@@ -92,6 +123,331 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
           }
         }));
 
+    new Setting(containerEl)
+      .setName('Cache enrichments')
+      .setDesc('Reuse scraped content and generated descriptions for links enriched before, even in other canvases')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.cacheEnabled)
+        .onChange(async (value) => {
+          this.plugin.settings.cacheEnabled = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Cache lifetime (days)')
+      .setDesc('Cached enrichments older than this are fetched again. Use 0 to keep them forever.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.cacheTtlDays.toString())
+        .setValue(this.plugin.settings.cacheTtlDays.toString())
+        .onChange(async (value) => {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue) && numValue >= 0) {
+            this.plugin.settings.cacheTtlDays = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Batch concurrency')
+      .setDesc('How many link cards to enrich at the same time when processing a whole canvas or selection')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.batchConcurrency.toString())
+        .setValue(this.plugin.settings.batchConcurrency.toString())
+        .onChange(async (value) => {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue) && numValue > 0) {
+            this.plugin.settings.batchConcurrency = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Delay per site (ms)')
+      .setDesc('Minimum time between two requests to the same website during batch enrichment')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.hostDelayMs.toString())
+        .setValue(this.plugin.settings.hostDelayMs.toString())
+        .onChange(async (value) => {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue) && numValue >= 0) {
+            this.plugin.settings.hostDelayMs = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    // Vault files section
+    new Setting(containerEl).setName('Vault files').setHeading();
+
+    new Setting(containerEl)
+      .setName('Auto-enrich file cards')
+      .setDesc('Also summarize notes, PDF files and images when they are added to a canvas. Requires auto-enrich on paste.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.autoEnrichFileNodes)
+        .onChange(async (value) => {
+          this.plugin.settings.autoEnrichFileNodes = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('File summaries')
+      .setDesc('Where summaries of vault files go. PDF files and images always get a companion card.')
+      .addDropdown(dropdown => dropdown
+        .addOption('card', 'Companion card next to the file')
+        .addOption('frontmatter', 'Property in the note')
+        .setValue(this.plugin.settings.fileSummaryTarget)
+        .onChange(async (value) => {
+          this.plugin.settings.fileSummaryTarget = value as FileSummaryTarget;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Summary property')
+      .setDesc('Note property that receives the summary')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.fileSummaryProperty)
+        .setValue(this.plugin.settings.fileSummaryProperty)
+        .onChange(async (value) => {
+          this.plugin.settings.fileSummaryProperty = value.trim() || DEFAULT_SETTINGS.fileSummaryProperty;
+          await this.plugin.saveSettings();
+        }));
+
+    // Markdown notes section
+    new Setting(containerEl).setName('Markdown notes').setHeading();
+
+    new Setting(containerEl)
+      .setName('Enrich links pasted into notes')
+      .setDesc('When a link is pasted on an empty line of a note, replace it with a rich link block')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enrichPastedUrlsInNotes)
+        .onChange(async (value) => {
+          this.plugin.settings.enrichPastedUrlsInNotes = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show preview image')
+      .setDesc("Include the page's preview image in link blocks")
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.noteLinkImage)
+        .onChange(async (value) => {
+          this.plugin.settings.noteLinkImage = value;
+          await this.plugin.saveSettings();
+        }));
+
+    // Link health section
+    new Setting(containerEl).setName('Link health').setHeading();
+
+    new Setting(containerEl)
+      .setName('Check links every (days)')
+      .setDesc('Re-check the links of all canvases in the background and mark broken ones. 0 turns scheduled checks off.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.linkCheckIntervalDays.toString())
+        .setValue(this.plugin.settings.linkCheckIntervalDays.toString())
+        .onChange(async (value) => {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue) && numValue >= 0) {
+            this.plugin.settings.linkCheckIntervalDays = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    // Canvas overview section
+    new Setting(containerEl).setName('Canvas overview').setHeading();
+
+    new Setting(containerEl)
+      .setName('Overview output')
+      .setDesc('Where the write AI overview command puts its result. Notes go in the notes folder and are shown as a file card.')
+      .addDropdown(dropdown => dropdown
+        .addOption('card', 'Text card on the canvas')
+        .addOption('note', 'Note in the notes folder')
+        .setValue(this.plugin.settings.overviewTarget)
+        .onChange(async (value) => {
+          this.plugin.settings.overviewTarget = value as OverviewTarget;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Overview prompt')
+      .setDesc('Instructions for the AI when writing an overview of several cards')
+      .addTextArea(text => {
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.overviewPrompt)
+          .setValue(this.plugin.settings.overviewPrompt)
+          .onChange(async (value) => {
+            this.plugin.settings.overviewPrompt = value || DEFAULT_SETTINGS.overviewPrompt;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 8;
+        text.inputEl.cols = 50;
+        return text;
+      });
+
+    // Semantic search section
+    new Setting(containerEl).setName('Semantic search').setHeading();
+
+    new Setting(containerEl)
+      .setName('Embedding provider')
+      .setDesc('Embeds each enriched card so the search enriched links command can find it by meaning. OpenAI-compatible uses the OpenAI API key and base URL above.')
+      .addDropdown(dropdown => dropdown
+        .addOption('off', 'Off')
+        .addOption('ollama', 'Ollama')
+        .addOption('openai', 'OpenAI-compatible')
+        .setValue(this.plugin.settings.embeddingProvider)
+        .onChange(async (value) => {
+          this.plugin.settings.embeddingProvider = value as EmbeddingProviderType;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Embedding model')
+      .setDesc('For example nomic-embed-text for Ollama or text-embedding-3-small for OpenAI. Run the rebuild search index command after changing it.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.embeddingModel)
+        .setValue(this.plugin.settings.embeddingModel)
+        .onChange(async (value) => {
+          this.plugin.settings.embeddingModel = value.trim() || DEFAULT_SETTINGS.embeddingModel;
+          await this.plugin.saveSettings();
+        }));
+
+    // Card appearance section
+    new Setting(containerEl).setName('Card appearance').setHeading();
+
+    new Setting(containerEl)
+      .setName('Card placement')
+      .setDesc('Replace turns the link into the enriched card. Companion card keeps the link and adds the card next to it, joined by an edge. Group does the same and puts both in a group.')
+      .addDropdown(dropdown => dropdown
+        .addOption('replace', 'Replace the link')
+        .addOption('companion', 'Companion card')
+        .addOption('group', 'Group link and card')
+        .setValue(this.plugin.settings.cardOutputMode)
+        .onChange(async (value) => {
+          this.plugin.settings.cardOutputMode = value as CardOutputMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Auto-resize cards')
+      .setDesc('Size enriched cards to fit their content and move overlapping cards out of the way')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.autoResizeCards)
+        .onChange(async (value) => {
+          this.plugin.settings.autoResizeCards = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Preferred card width')
+      .setDesc('Width of resized cards, in canvas units')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.preferredCardWidth.toString())
+        .setValue(this.plugin.settings.preferredCardWidth.toString())
+        .onChange(async (value) => {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue) && numValue >= 200) {
+            this.plugin.settings.preferredCardWidth = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Download preview images')
+      .setDesc('Save preview images into the vault and show the local copy, so cards keep working offline and when the image moves')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.downloadImages)
+        .onChange(async (value) => {
+          this.plugin.settings.downloadImages = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Download favicons')
+      .setDesc('Also save site icons into the vault; show them with the {{favicon}} placeholder')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.downloadFavicons)
+        .onChange(async (value) => {
+          this.plugin.settings.downloadFavicons = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Attachments folder')
+      .setDesc('Folder where downloaded images and favicons are stored')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.attachmentsFolder)
+        .setValue(this.plugin.settings.attachmentsFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.attachmentsFolder = value || DEFAULT_SETTINGS.attachmentsFolder;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Status badges')
+      .setDesc('Show a colored dot on cards that are being enriched, were enriched, failed or are stale, and a mark on cards with broken links. Hover it for details.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showStatusBadges)
+        .onChange(async (value) => {
+          this.plugin.settings.showStatusBadges = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Stale after (days)')
+      .setDesc('Enriched cards older than this are marked stale. Set to 0 to never mark cards stale.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.staleAfterDays.toString())
+        .setValue(this.plugin.settings.staleAfterDays.toString())
+        .onChange(async (value) => {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue) && numValue >= 0) {
+            this.plugin.settings.staleAfterDays = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    let presetDropdown: DropdownComponent | null = null;
+    new Setting(containerEl)
+      .setName('Card template preset')
+      .setDesc('Start from a built-in layout, or pick custom to keep your own template')
+      .addDropdown(dropdown => (presetDropdown = dropdown)
+        .addOption('full', 'Full')
+        .addOption('compact', 'Compact')
+        .addOption('image-only', 'Image only')
+        .addOption('custom', 'Custom')
+        .setValue(this.plugin.settings.cardTemplatePreset)
+        .onChange(async (value) => {
+          const preset = value as CardTemplatePreset;
+          this.plugin.settings.cardTemplatePreset = preset;
+          if (preset !== 'custom') {
+            this.plugin.settings.cardTemplate = CARD_TEMPLATE_PRESETS[preset];
+          }
+          await this.plugin.saveSettings();
+          this.display(); // Re-render to show the preset's template
+        }));
+
+    new Setting(containerEl)
+      .setName('Card template')
+      .setDesc('Placeholders: {{title}}, {{url}}, {{summary}}, {{description}}, {{ogImage}}, {{siteName}}, {{favicon}}, {{textContent}}, {{domain}}, {{date}}, {{provider}}, {{notePath}}, {{noteLink}}, and in structured mode {{tags}}, {{keyPoints}}, {{contentType}}, {{readingTime}}. Wrap text in {{#field}}...{{/field}} to show it only when the field has a value, or {{^field}}...{{/field}} when it is empty.')
+      .addTextArea(text => {
+        text
+          .setPlaceholder(CARD_TEMPLATE_PRESETS.full)
+          .setValue(this.plugin.settings.cardTemplate)
+          .onChange(async (value) => {
+            const template = value || CARD_TEMPLATE_PRESETS.full;
+            this.plugin.settings.cardTemplate = template;
+            // Show the preset the text still matches, or custom once it has been edited
+            const preset = (Object.keys(CARD_TEMPLATE_PRESETS) as Array<Exclude<CardTemplatePreset, 'custom'>>)
+              .find(key => CARD_TEMPLATE_PRESETS[key] === template) ?? 'custom';
+            this.plugin.settings.cardTemplatePreset = preset;
+            presetDropdown?.setValue(preset);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 8;
+        text.inputEl.cols = 50;
+        return text;
+      });
+
+    this.displayPromptProfiles(containerEl);
+
     // Advanced section
     new Setting(containerEl).setName('Advanced').setHeading();
 
@@ -111,6 +467,20 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
         return text;
       });
 
+    new Setting(containerEl)
+      .setName('Max request attempts')
+      .setDesc('How many times to try an AI request when the provider is rate limiting or temporarily unavailable. Invalid keys and bad requests are never retried.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.maxRetryAttempts.toString())
+        .setValue(this.plugin.settings.maxRetryAttempts.toString())
+        .onChange(async (value) => {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue) && numValue > 0) {
+            this.plugin.settings.maxRetryAttempts = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
     // Environment variables toggle
     new Setting(containerEl)
       .setName('Use environment variables')
@@ -140,8 +510,8 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
         }));
   }
 
-  private displayProviderSettings(containerEl: HTMLElement): void {
-    switch (this.plugin.settings.aiProvider) {
+  private displayProviderSettings(containerEl: HTMLElement, type: AIProviderType): void {
+    switch (type) {
       case 'ollama':
         this.displayOllamaSettings(containerEl);
         break;
@@ -160,6 +530,190 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
     }
   }
 
+  private displayFallbackSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl).setName('Fallback providers').setHeading();
+
+    const fallbacks = this.plugin.settings.providerFallbacks
+      .filter(type => type !== this.plugin.settings.aiProvider);
+
+    new Setting(containerEl)
+      .setDesc('When the provider above is unreachable, times out, or returns an error, these are tried in order before falling back to the page\'s meta description.');
+
+    fallbacks.forEach((type, index) => {
+      new Setting(containerEl)
+        .setName(`${index + 1}. ${PROVIDER_LABELS[type]}`)
+        .addExtraButton(button => button
+          .setIcon('arrow-up')
+          .setTooltip('Move up')
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            await this.saveFallbacks(this.swap(fallbacks, index, index - 1));
+          }))
+        .addExtraButton(button => button
+          .setIcon('arrow-down')
+          .setTooltip('Move down')
+          .setDisabled(index === fallbacks.length - 1)
+          .onClick(async () => {
+            await this.saveFallbacks(this.swap(fallbacks, index, index + 1));
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Remove fallback')
+          .onClick(async () => {
+            await this.saveFallbacks(fallbacks.filter(t => t !== type));
+          }));
+      this.displayProviderSettings(containerEl, type);
+    });
+
+    const available = (Object.keys(PROVIDER_LABELS) as AIProviderType[])
+      .filter(type => type !== this.plugin.settings.aiProvider && !fallbacks.includes(type));
+
+    if (available.length > 0) {
+      new Setting(containerEl)
+        .setName('Add fallback')
+        .addDropdown(dropdown => {
+          dropdown.addOption('', 'Choose a provider...');
+          for (const type of available) {
+            dropdown.addOption(type, PROVIDER_LABELS[type]);
+          }
+          dropdown.onChange(async (value) => {
+            if (!value) return;
+            await this.saveFallbacks([...fallbacks, value as AIProviderType]);
+          });
+        });
+    }
+  }
+
+  private displayPromptProfiles(containerEl: HTMLElement): void {
+    new Setting(containerEl).setName('Prompt profiles').setHeading();
+
+    new Setting(containerEl)
+      .setDesc('Profiles replace the AI prompt for matching websites. A canvas can pin a profile with the set prompt profile command, and any card can be enriched with a specific profile from its context menu.');
+
+    const profiles = this.plugin.settings.promptProfiles;
+    profiles.forEach((profile, index) => {
+      const details = containerEl.createEl('details', { cls: 'detailed-canvas-profile' });
+      details.createEl('summary', { text: profile.name });
+
+      new Setting(details)
+        .setName('Name')
+        .addText(text => text
+          .setValue(profile.name)
+          .onChange(async (value) => {
+            await this.updateProfile(index, { name: value || profile.id });
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete profile')
+          .onClick(async () => {
+            this.plugin.settings.promptProfiles = profiles.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+
+      new Setting(details)
+        .setName('Websites')
+        .setDesc('Comma-separated host patterns. A domain also matches its subdomains; * is a wildcard.')
+        .addText(text => text
+          .setPlaceholder('Domains or patterns')
+          .setValue(profile.hostPatterns.join(', '))
+          .onChange(async (value) => {
+            const hostPatterns = value.split(',').map(p => p.trim()).filter(p => p.length > 0);
+            await this.updateProfile(index, { hostPatterns });
+          }));
+
+      new Setting(details)
+        .setName('Provider')
+        .setDesc('Use a different provider for this profile')
+        .addDropdown(dropdown => {
+          dropdown.addOption('', 'Default provider');
+          for (const [type, label] of Object.entries(PROVIDER_LABELS)) {
+            dropdown.addOption(type, label);
+          }
+          dropdown
+            .setValue(profile.provider)
+            .onChange(async (value) => {
+              await this.updateProfile(index, { provider: value as AIProviderType | '' });
+            });
+        });
+
+      new Setting(details)
+        .setName('Model')
+        .setDesc('Model name for this profile. Leave empty to use the provider\'s model.')
+        .addText(text => text
+          .setPlaceholder('Provider default')
+          .setValue(profile.model)
+          .onChange(async (value) => {
+            await this.updateProfile(index, { model: value.trim() });
+          }));
+
+      new Setting(details)
+        .setName('Max description length')
+        .setDesc('Use 0 for the global maximum')
+        .addText(text => text
+          .setPlaceholder('0')
+          .setValue(profile.maxLength.toString())
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0) {
+              await this.updateProfile(index, { maxLength: numValue });
+            }
+          }));
+
+      new Setting(details)
+        .setName('Prompt')
+        .addTextArea(text => {
+          text
+            .setPlaceholder(DEFAULT_SETTINGS.descriptionPrompt)
+            .setValue(profile.prompt)
+            .onChange(async (value) => {
+              await this.updateProfile(index, { prompt: value });
+            });
+          text.inputEl.rows = 4;
+          text.inputEl.cols = 50;
+          return text;
+        });
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add profile')
+        .onClick(async () => {
+          const name = 'New profile';
+          this.plugin.settings.promptProfiles = [...profiles, {
+            id: createProfileId(name, profiles),
+            name,
+            prompt: DEFAULT_SETTINGS.descriptionPrompt,
+            hostPatterns: [],
+            provider: '',
+            model: '',
+            maxLength: 0,
+          }];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+  }
+
+  // Profiles are replaced rather than mutated so the built-in defaults stay pristine
+  private async updateProfile(index: number, changes: Partial<PromptProfile>): Promise<void> {
+    this.plugin.settings.promptProfiles = this.plugin.settings.promptProfiles.map((profile, i) =>
+      i === index ? { ...profile, ...changes } : profile
+    );
+    await this.plugin.saveSettings();
+  }
+
+  private async saveFallbacks(fallbacks: AIProviderType[]): Promise<void> {
+    this.plugin.settings.providerFallbacks = fallbacks;
+    await this.plugin.saveSettings();
+    this.display();
+  }
+
+  private swap<T>(items: T[], a: number, b: number): T[] {
+    const copy = [...items];
+    [copy[a], copy[b]] = [copy[b], copy[a]];
+    return copy;
+  }
+
   private displayOllamaSettings(containerEl: HTMLElement): void {
     new Setting(containerEl)
       .setName('Ollama endpoint')
@@ -174,7 +728,7 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
       .addButton(button => button
         .setButtonText('Test connection')
         .onClick(async () => {
-          await this.testConnection();
+          await this.testConnection('ollama');
         }));
 
     const modelSetting = new Setting(containerEl)
@@ -188,7 +742,7 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
       );
 
       try {
-        const provider = createProvider(this.plugin.settings);
+        const provider = createProviderOfType('ollama', this.plugin.settings);
         const models = await provider.getModels();
 
         dropdown.selectEl.empty();
@@ -229,7 +783,7 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
   private displayOpenAISettings(containerEl: HTMLElement): void {
     this.addApiKeySetting(containerEl, 'OpenAI API key', 'openaiApiKey');
 
-    this.addModelDropdown(containerEl, 'openaiModel', DEFAULT_SETTINGS.openaiModel);
+    this.addModelDropdown(containerEl, 'openai', 'openaiModel', DEFAULT_SETTINGS.openaiModel);
 
     new Setting(containerEl)
       .setName('Custom base URL')
@@ -242,7 +796,7 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
-    this.addTestConnectionButton(containerEl);
+    this.addTestConnectionButton(containerEl, 'openai');
   }
 
   private displayClaudeSettings(containerEl: HTMLElement): void {
@@ -262,27 +816,28 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
         });
       });
 
-    this.addTestConnectionButton(containerEl);
+    this.addTestConnectionButton(containerEl, 'claude');
   }
 
   private displayOpenRouterSettings(containerEl: HTMLElement): void {
     this.addApiKeySetting(containerEl, 'OpenRouter API key', 'openrouterApiKey');
 
-    this.addModelDropdown(containerEl, 'openrouterModel', DEFAULT_SETTINGS.openrouterModel);
+    this.addModelDropdown(containerEl, 'openrouter', 'openrouterModel', DEFAULT_SETTINGS.openrouterModel);
 
-    this.addTestConnectionButton(containerEl);
+    this.addTestConnectionButton(containerEl, 'openrouter');
   }
 
   private displayGroqSettings(containerEl: HTMLElement): void {
     this.addApiKeySetting(containerEl, 'Groq API key', 'groqApiKey');
 
-    this.addModelDropdown(containerEl, 'groqModel', DEFAULT_SETTINGS.groqModel);
+    this.addModelDropdown(containerEl, 'groq', 'groqModel', DEFAULT_SETTINGS.groqModel);
 
-    this.addTestConnectionButton(containerEl);
+    this.addTestConnectionButton(containerEl, 'groq');
   }
 
   private addModelDropdown(
     containerEl: HTMLElement,
+    type: AIProviderType,
     settingsKey: 'openaiModel' | 'openrouterModel' | 'groqModel' | 'ollamaModel',
     defaultModel: string
   ): void {
@@ -297,7 +852,7 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
 
       // Try to fetch available models from the API
       try {
-        const provider = createProvider(this.plugin.settings);
+        const provider = createProviderOfType(type, this.plugin.settings);
         const models = await provider.getModels();
 
         dropdown.selectEl.empty();
@@ -369,18 +924,18 @@ export class DetailedCanvasSettingTab extends PluginSettingTab {
     });
   }
 
-  private addTestConnectionButton(containerEl: HTMLElement): void {
+  private addTestConnectionButton(containerEl: HTMLElement, type: AIProviderType): void {
     new Setting(containerEl)
       .addButton(button => button
         .setButtonText('Test connection')
         .onClick(async () => {
-          await this.testConnection();
+          await this.testConnection(type);
         }));
   }
 
-  private async testConnection(): Promise<void> {
+  private async testConnection(type: AIProviderType): Promise<void> {
     try {
-      const provider = createProvider(this.plugin.settings);
+      const provider = createProviderOfType(type, this.plugin.settings);
       const isConnected = await provider.checkConnection();
       if (isConnected) {
         new Notice('Connection successful!');
@@ -3,11 +3,41 @@ export interface DetailedCanvasSettings {
   ollamaEndpoint: string;
   ollamaModel: string;
   autoEnrichOnPaste: boolean;
+  autoEnrichFileNodes: boolean;
+  fileSummaryTarget: FileSummaryTarget;
+  fileSummaryProperty: string;
   notesFolder: string;
+  createNotes: boolean;
+  cardTemplatePreset: CardTemplatePreset;
+  cardTemplate: string;
+  cardOutputMode: CardOutputMode;
+  autoResizeCards: boolean;
+  preferredCardWidth: number;
+  downloadImages: boolean;
+  downloadFavicons: boolean;
+  attachmentsFolder: string;
+  showStatusBadges: boolean;
+  linkCheckIntervalDays: number;
+  staleAfterDays: number;
+  enrichPastedUrlsInNotes: boolean;
+  noteLinkImage: boolean;
+  overviewTarget: OverviewTarget;
+  overviewPrompt: string;
+  embeddingProvider: EmbeddingProviderType;
+  embeddingModel: string;
+  cacheEnabled: boolean;
+  cacheTtlDays: number;
+  batchConcurrency: number;
+  hostDelayMs: number;
+  maxRetryAttempts: number;
+  streamGeneration: boolean;
+  structuredOutput: boolean;
   descriptionPrompt: string;
+  promptProfiles: PromptProfile[];
   maxDescriptionLength: number;
   showNotifications: boolean;
   aiProvider: AIProviderType;
+  providerFallbacks: AIProviderType[];
   openaiApiKey: string;
   openaiModel: string;
   openaiBaseUrl: string;
@@ -20,14 +50,117 @@ export interface DetailedCanvasSettings {
   useEnvVariables: boolean;
 }
 
+// Prompt profile: prompt, optional provider/model and length, chosen by host pattern or per canvas
+export interface PromptProfile {
+  id: string;
+  name: string;
+  prompt: string;
+  hostPatterns: string[];
+  provider: AIProviderType | '';
+  model: string;
+  maxLength: number; // 0 = use the global max description length
+}
+
+export type CardTemplatePreset = 'full' | 'compact' | 'image-only' | 'custom';
+
+// How the enriched card is placed: replace the original node, add a companion card joined
+// by an edge, or add the companion card and put both in a group
+export type CardOutputMode = 'replace' | 'companion' | 'group';
+
+// Where summaries of vault files go: a card next to the file node, or a property of the note
+export type FileSummaryTarget = 'card' | 'frontmatter';
+
+// Where canvas overviews go: a text card on the canvas, or a note in the notes folder shown as a file card
+export type OverviewTarget = 'card' | 'note';
+
+// Relationship between two cards proposed by the AI
+export interface SuggestedEdge {
+  fromId: string;
+  toId: string;
+  label: string;
+}
+
+// Topic cluster of cards proposed by the AI
+export interface SuggestedCluster {
+  name: string;
+  nodeIds: string[];
+}
+
+export interface RelationshipSuggestions {
+  edges: SuggestedEdge[];
+  clusters: SuggestedCluster[];
+}
+
+// Progress of a node's last enrichment
+export type EnrichmentState = 'enriching' | 'enriched' | 'failed';
+
+// Last enrichment status of a canvas node, kept across restarts
+export interface NodeEnrichmentStatus {
+  state: EnrichmentState;
+  error?: string; // why the last attempt failed
+  updatedAt: number;
+}
+
+// Result of re-checking a link card's URL: ok, gone (404/410), moved to another site, a parked domain,
+// or not answering properly (server errors, DNS failures)
+export type LinkHealthState = 'ok' | 'not-found' | 'redirected' | 'parked' | 'unreachable';
+
+// Last health check of a link card's URL, kept across restarts
+export interface LinkHealth {
+  url: string;
+  state: LinkHealthState;
+  detail?: string; // e.g. the HTTP status or the network error
+  movedTo?: string; // where a redirected link points now
+  checkedAt: number;
+}
+
 export type AIProviderType = 'ollama' | 'openai' | 'openrouter' | 'groq' | 'claude';
 
+// Providers with an embeddings endpoint, used for semantic search ('off' disables indexing)
+export type EmbeddingProviderType = 'off' | 'ollama' | 'openai';
+
 export interface AIProvider {
   generate(prompt: string, context: string): Promise<string>;
+  // Optional: stream tokens as they arrive; onText receives the full text generated so far
+  generateStream?(prompt: string, context: string, onText: (text: string) => void): Promise<string>;
+  // Optional: use the provider's native JSON/tool mode; returns the raw JSON text
+  generateJson?(prompt: string, context: string, schema: JsonSchema, maxTokens?: number): Promise<string>;
+  // Optional: describe an image (needs a vision-capable model)
+  describeImage?(prompt: string, image: ImageInput): Promise<string>;
+  // Optional: embed texts with the provider's model (must be an embedding model); one vector per text
+  embed?(texts: string[]): Promise<number[][]>;
   checkConnection(): Promise<boolean>;
   getModels(): Promise<string[]>;
 }
 
+// Base64-encoded image sent to vision models
+export interface ImageInput {
+  data: string;
+  mediaType: string;
+}
+
+// Minimal JSON Schema subset used for structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  additionalProperties?: boolean;
+}
+
+export type ContentType = 'article' | 'video' | 'repo' | 'paper' | 'product' | 'other';
+
+// Structured enrichment returned by the model in structured output mode
+export interface StructuredEnrichment {
+  summary: string;
+  tags: string[];
+  keyPoints: string[];
+  contentType: ContentType;
+  readingTimeMinutes: number;
+}
+
 // URL Metadata from scraping
 export interface UrlMetadata {
   url: string;
@@ -37,13 +170,32 @@ export interface UrlMetadata {
   siteName: string | null;
   favicon: string | null;
   textContent: string;
+  // Site-specific facts from a site extractor, e.g. stars, channel or authors
+  details?: Record<string, string>;
+}
+
+// Options handed to site extractors by the scraper
+export interface SiteExtractorContext {
+  maxTextLength: number;
+  validateImageUrl(imageUrl: string): Promise<string | null>;
+}
+
+// Scrapes one family of sites through its API instead of generic HTML parsing
+export interface SiteExtractor {
+  name: string;
+  // Host patterns as in prompt profiles: "github.com" also matches subdomains, "*" is a wildcard
+  hostPatterns: string[];
+  // Returns null when the URL is not one the extractor understands, so the generic scraper runs
+  extract(url: string, context: SiteExtractorContext): Promise<UrlMetadata | null>;
 }
 
 // Ollama API types
 export interface OllamaGenerateRequest {
   model: string;
   prompt: string;
-  stream: false;
+  stream: boolean;
+  format?: 'json' | JsonSchema;
+  images?: string[];
   options?: {
     temperature?: number;
     num_predict?: number;
@@ -57,9 +209,22 @@ export interface OllamaGenerateResponse {
   total_duration?: number;
 }
 
+export interface OllamaEmbeddingsRequest {
+  model: string;
+  prompt: string;
+}
+
+export interface OllamaEmbeddingsResponse {
+  embedding: number[];
+}
+
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
 export interface OpenAIChatMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string | OpenAIContentPart[];
 }
 
 export interface OpenAIChatRequest {
@@ -67,6 +232,8 @@ export interface OpenAIChatRequest {
   messages: OpenAIChatMessage[];
   max_tokens?: number;
   temperature?: number;
+  stream?: boolean;
+  response_format?: { type: 'json_object' | 'text' };
 }
 
 export interface OpenAIChatResponse {
@@ -80,24 +247,69 @@ export interface OpenAIChatResponse {
   }>;
 }
 
+export interface OpenAIEmbeddingsRequest {
+  model: string;
+  input: string[];
+}
+
+export interface OpenAIEmbeddingsResponse {
+  data: Array<{
+    index: number;
+    embedding: number[];
+  }>;
+}
+
+export interface OpenAIChatStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+}
+
 export interface ClaudeMessageRequest {
   model: string;
   max_tokens: number;
+  stream?: boolean;
   messages: Array<{
     role: 'user' | 'assistant';
-    content: string;
+    content: string | ClaudeContentBlock[];
+  }>;
+  tools?: Array<{
+    name: string;
+    description: string;
+    input_schema: JsonSchema;
   }>;
+  tool_choice?: { type: 'tool'; name: string };
 }
 
+export type ClaudeContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
 export interface ClaudeMessageResponse {
   id: string;
   content: Array<{
     type: string;
-    text: string;
+    text?: string;
+    input?: unknown;
   }>;
   stop_reason: string;
 }
 
+export interface ClaudeStreamEvent {
+  type: string;
+  delta?: {
+    type: string;
+    text?: string;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
 // Canvas node types
 export interface CanvasNodeData {
   id: string;
@@ -118,7 +330,21 @@ export interface CanvasTextData extends CanvasNodeData {
   text: string;
 }
 
-export type CanvasNode = CanvasLinkData | CanvasTextData;
+export interface CanvasFileData extends CanvasNodeData {
+  type: "file";
+  file: string;
+  subpath?: string;
+}
+
+export interface CanvasGroupData extends CanvasNodeData {
+  type: "group";
+  label?: string;
+}
+
+export type CanvasNode = CanvasLinkData | CanvasTextData | CanvasFileData | CanvasGroupData;
+
+// Nodes the plugin can enrich: web links (including URL-only text cards) and vault files
+export type EnrichableNode = CanvasLinkData | CanvasFileData;
 
 export interface CanvasEdgeData {
   id: string;
@@ -133,15 +359,55 @@ export interface CanvasEdgeData {
 export interface CanvasData {
   nodes: CanvasNode[];
   edges: CanvasEdgeData[];
+  detailedCanvas?: CanvasPluginMetadata;
+}
+
+// Per-canvas plugin settings stored in the .canvas file
+export interface CanvasPluginMetadata {
+  profile?: string;
+}
+
+// Per-call enrichment options
+export interface EnrichOptions {
+  forceRefresh?: boolean;
+  profileId?: string;
+}
+
+// Content handed to the AI for one description
+export interface DescriptionSource {
+  text: string;
+  fallback: string | null; // shown when the AI fails, e.g. the page's meta description
+  image?: ImageInput;
+}
+
+// Description produced for one piece of content
+export interface GeneratedDescription {
+  text: string;
+  provider?: AIProviderType;
+  structured?: StructuredEnrichment;
+  fromAI: boolean; // false when the meta description was used as a fallback
 }
 
 // Enrichment result
 export interface EnrichmentResult {
   success: boolean;
   notePath?: string;
+  provider?: AIProviderType;
   error?: string;
 }
 
+// Outcome of one card in a vault-wide enrichment run
+export type RunOutcome = 'enriched' | 'failed' | 'skipped';
+
+// One card in a vault-wide enrichment run, as listed in the run report
+export interface RunReportItem {
+  canvasPath: string;
+  nodeId: string;
+  target: string; // URL of the card
+  outcome: RunOutcome;
+  reason?: string; // error message or why the card was skipped
+}
+
 // Internal canvas types (not in official Obsidian API)
 export interface CanvasNodeInstance {
   getData?(): Record<string, unknown> | undefined;
@@ -0,0 +1,29 @@
+import { App, FuzzySuggestModal, TFolder } from 'obsidian';
+
+/**
+ * Fuzzy picker over the vault's folders, with the vault root listed first as "Entire vault"
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  constructor(
+    app: App,
+    private onChoose: (folder: TFolder) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Choose a folder to scan...');
+  }
+
+  getItems(): TFolder[] {
+    const folders = this.app.vault.getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+      .sort((a, b) => a.path.localeCompare(b.path));
+    return [this.app.vault.getRoot(), ...folders];
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? 'Entire vault' : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
@@ -0,0 +1,40 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { PromptProfile } from '../types';
+
+// Sentinel for "no profile": use host matching and the global prompt
+export const AUTOMATIC_PROFILE: PromptProfile = {
+  id: '',
+  name: 'Automatic (match by website)',
+  prompt: '',
+  hostPatterns: [],
+  provider: '',
+  model: '',
+  maxLength: 0,
+};
+
+/**
+ * Fuzzy picker over the configured prompt profiles
+ */
+export class ProfileSuggestModal extends FuzzySuggestModal<PromptProfile> {
+  constructor(
+    app: App,
+    private profiles: PromptProfile[],
+    private onChoose: (profile: PromptProfile) => void,
+    private includeAutomatic = false
+  ) {
+    super(app);
+    this.setPlaceholder('Choose a prompt profile...');
+  }
+
+  getItems(): PromptProfile[] {
+    return this.includeAutomatic ? [AUTOMATIC_PROFILE, ...this.profiles] : this.profiles;
+  }
+
+  getItemText(profile: PromptProfile): string {
+    return profile.name;
+  }
+
+  onChooseItem(profile: PromptProfile): void {
+    this.onChoose(profile);
+  }
+}
@@ -0,0 +1,74 @@
+import { App, Modal, Setting } from 'obsidian';
+import { RelationshipSuggestions } from '../types';
+
+/**
+ * Preview of AI-suggested edges and clusters; nothing changes on the canvas until the user applies
+ */
+export class RelationshipPreviewModal extends Modal {
+  private edgeChecked: boolean[];
+  private clusterChecked: boolean[];
+
+  constructor(
+    app: App,
+    private suggestions: RelationshipSuggestions,
+    private titles: Map<string, string>,
+    private onApply: (accepted: RelationshipSuggestions) => void
+  ) {
+    super(app);
+    this.edgeChecked = suggestions.edges.map(() => true);
+    this.clusterChecked = suggestions.clusters.map(() => true);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const title = (id: string) => this.titles.get(id) ?? 'Untitled card';
+    this.titleEl.setText('Suggested links and clusters');
+
+    if (this.suggestions.clusters.length > 0) {
+      new Setting(contentEl)
+        .setName(`Clusters (${this.suggestions.clusters.length})`)
+        .setDesc('The cards of each checked cluster are moved next to each other inside a labelled group')
+        .setHeading();
+      this.suggestions.clusters.forEach((cluster, index) => {
+        new Setting(contentEl)
+          .setName(cluster.name)
+          .setDesc(cluster.nodeIds.map(title).join(' · '))
+          .addToggle(toggle => toggle
+            .setValue(this.clusterChecked[index])
+            .onChange(value => { this.clusterChecked[index] = value; }));
+      });
+    }
+
+    if (this.suggestions.edges.length > 0) {
+      new Setting(contentEl).setName(`Links (${this.suggestions.edges.length})`).setHeading();
+      this.suggestions.edges.forEach((edge, index) => {
+        new Setting(contentEl)
+          .setName(`${title(edge.fromId)} → ${title(edge.toId)}`)
+          .setDesc(edge.label)
+          .addToggle(toggle => toggle
+            .setValue(this.edgeChecked[index])
+            .onChange(value => { this.edgeChecked[index] = value; }));
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton(btn => btn
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(btn => btn
+        .setButtonText('Apply')
+        .setCta()
+        .onClick(() => {
+          this.onApply({
+            edges: this.suggestions.edges.filter((_, index) => this.edgeChecked[index]),
+            clusters: this.suggestions.clusters.filter((_, index) => this.clusterChecked[index]),
+          });
+          this.close();
+        }));
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,52 @@
+import { App, SuggestModal } from 'obsidian';
+import { SearchResult } from '../services/embedding-index';
+
+// Wait for a pause in typing before embedding the query
+const SEARCH_DELAY = 300;
+
+/**
+ * Search enriched cards across all canvases by meaning, and pick one to open
+ */
+export class SemanticSearchModal extends SuggestModal<SearchResult> {
+  private latestQuery = '';
+
+  constructor(
+    app: App,
+    private search: (query: string) => Promise<SearchResult[]>,
+    private onChoose: (result: SearchResult) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Search enriched links by meaning...');
+    this.emptyStateText = 'No matching cards';
+  }
+
+  async getSuggestions(query: string): Promise<SearchResult[]> {
+    this.latestQuery = query;
+    if (!query.trim()) return [];
+
+    await new Promise(resolve => window.setTimeout(resolve, SEARCH_DELAY));
+    // A newer keystroke has started its own search
+    if (query !== this.latestQuery) return [];
+
+    try {
+      return await this.search(query);
+    } catch (error) {
+      console.error('Semantic search failed:', error);
+      this.emptyStateText = `Search failed: ${error instanceof Error ? error.message : String(error)}`;
+      return [];
+    }
+  }
+
+  renderSuggestion(result: SearchResult, el: HTMLElement) {
+    const canvasName = result.card.canvasPath.split('/').pop()?.replace(/\.canvas$/, '') ?? result.card.canvasPath;
+    el.createDiv({ text: result.card.title });
+    el.createEl('small', {
+      text: `${canvasName} · ${Math.round(result.score * 100)}% · ${result.card.snippet}`,
+      cls: 'detailed-canvas-search-detail',
+    });
+  }
+
+  onChooseSuggestion(result: SearchResult) {
+    this.onChoose(result);
+  }
+}